@@ -18,6 +18,25 @@ interface RetryOptions {
   baseDelayMs: number; // starting wait before retry
   maxDelayMs: number; // cap wait between retries
   jitter: boolean; // randomize wait time a little to avoid retry storms
+  retryOn: number[]; // HTTP status codes worth retrying (network errors are always retriable)
+  methods: string[]; // methods retried by default (idempotent ones)
+  retryNonIdempotent: boolean; // opt-in: also retry methods not listed in `methods` (e.g. POST/PATCH)
+  respectRetryAfter: boolean; // honor the Retry-After header (seconds or HTTP-date)
+  maxRetryAfterMs: number; // cap wait taken from Retry-After
+  shouldRetry?: (error: AxiosError, attempt: number) => boolean | undefined; // custom predicate, undefined = default policy
+  onAttempt?: (info: RetryAttemptInfo) => void; // reports every failed attempt
+}
+
+/** Info reported to `onAttempt` after each failed attempt */
+export interface RetryAttemptInfo {
+  attempt: number; // 1-based attempt that just failed
+  method?: string;
+  url?: string;
+  statusCode?: number;
+  code?: string;
+  error: AxiosError;
+  willRetry: boolean;
+  delayMs: number; // wait before the next attempt (0 when not retrying)
 }
 
 const DEFAULT_RETRY: RetryOptions = {
@@ -25,6 +44,11 @@ const DEFAULT_RETRY: RetryOptions = {
   baseDelayMs: 300,
   maxDelayMs: 2000,
   jitter: true,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  methods: ["get", "head", "options", "put", "delete"],
+  retryNonIdempotent: false,
+  respectRetryAfter: true,
+  maxRetryAfterMs: 30000,
 };
 
 /** Enhanced API response shapes with discriminated unions */
@@ -45,6 +69,8 @@ interface ErrorData {
   message: string;
   statusCode?: number;
   code?: string;
+  attempts?: number; // attempts made by the call (set by run())
+  durationMs?: number; // wall-clock time of the call, retries and backoff included
   [key: string]: unknown;
 }
 
@@ -57,359 +83,3713 @@ interface ErrorData {
  ************************************************************************************/
 
 interface ClientOptions {
-  baseURL?: string;
+  baseURL?: string | string[] | BaseUrlResolver; // a list (or a resolver returning one) fails over in order
+  failover?: FailoverOptions; // host cooldown and failure predicate for a list of base URLs
   timeout?: number;
+  adapter?: AxiosRequestConfig["adapter"]; // custom axios transport (e.g. the mock transport from "@salespark/api-client/mock")
   defaultHeaders?: Record<string, string>;
-  authHeaders?: Record<string, string>;
+  authHeaders?: Record<string, string>; // static headers; use `auth` for rotating keys, signatures or per-request tokens
+  auth?: AuthStrategy; // bearer / basic / apiKey / hmac, or a function; applied on every attempt and replay
+  /** Token provider: called before every request, the token is sent as `${authScheme} ${token}` */
+  getToken?: () => string | null | undefined | Promise<string | null | undefined>;
+  /** Refresh function: called once on 401 (shared by all concurrent calls), must resolve the new token.
+   * Must not use this same client, otherwise it waits for itself. */
+  refreshToken?: () => Promise<string | null | undefined>;
+  authHeaderName?: string; // default "Authorization"
+  authScheme?: string; // default "Bearer" (use "" to send the raw token)
   onAuthError?: (error: AxiosError, instance: AxiosInstance) => void;
+  retry?: Partial<RetryOptions>; // client-wide retry policy, merged with per-call `retry`
+  deadlineMs?: number; // default budget of a whole call, retries and backoff included (EDEADLINE)
+  /** Auto Idempotency-Key on post/put/patch/upload: true = built-in UUID generator, or a custom generator */
+  idempotencyKey?: boolean | (() => string);
+  idempotencyHeader?: string; // default "Idempotency-Key"
+  cache?: boolean | CacheOptions; // opt-in response cache for GET methods (true = in-memory LRU defaults)
+  dedupe?: boolean; // share one request between concurrent identical GET calls
+  limits?: QueueOptions; // client-side concurrency and rate limits (global and per host)
+  circuitBreaker?: CircuitBreakerOptions; // fail fast (ECIRCUITOPEN) while a host/route is down
+  offline?: boolean | OfflineQueueOptions; // queue post/put/patch/delete that get no response and replay them later (EQUEUED)
+  batch?: BatchOptions; // batch(): calls of the same tick share one request to `endpoint`
+  graphql?: GraphQLOptions; // graphql(): endpoint and persisted queries
+  rpc?: RpcOptions; // rpc(): JSON-RPC endpoint
+  serialization?: SerializationOptions; // params style, ISO date reviver, camelCase/snake_case key transforms
+  middleware?: Middleware[]; // ordered middleware chain (see use())
+  observability?: ObservabilityOptions; // lifecycle events, trace header and metrics options
+  /** @deprecated Use `middleware` / `use()`: receives a partial copy of the config */
   onRequest?: (config: AxiosRequestConfig) => AxiosRequestConfig | undefined;
+  /** @deprecated Use `middleware` / `use()` */
   onResponse?: (response: AxiosResponse) => void;
+  /** @deprecated Use `middleware` / `use()` */
   onError?: (error: AxiosError) => void;
 }
 
+// Internal config: per-call extras carried through axios (unknown keys are kept by axios mergeConfig)
+type ClientRequestConfig = InternalAxiosRequestConfig & {
+  _authRetry?: boolean; // request already replayed after a token refresh
+  _sentToken?: string; // token this request was sent with
+  _release?: () => void; // frees the request queue slot
+  _circuitKey?: string; // circuit breaker key of this request
+  _call?: CallTracker; // lifecycle tracker of the call (trace ids)
+  _hosts?: string[]; // base URLs left to fail over to in this attempt
+  _rawBody?: boolean; // body is a protocol envelope (GraphQL, JSON-RPC): no request key transform
+  priority?: number;
+};
+
+// Per-call axios config accepted by cfg()
+type CallConfig = AxiosRequestConfig & { priority?: number; _call?: CallTracker; _rawBody?: boolean };
+
+/** --------------------------------------------------------------------
+ * Shared state and guarded calls
+ * ------------------------------------------------------------------ */
+
+// State shared by clients built from the same options (or sub-options) object, e.g. withAuth(opts)
+// and resource("/users", opts): one value per owner and key, created on first use
+const sharedState = new WeakMap<object, Map<string, unknown>>();
+
+const sharedFor = <V>(owner: object, key: string, factory: () => V): V => {
+  let values = sharedState.get(owner);
+  if (!values) {
+    values = new Map<string, unknown>();
+    sharedState.set(owner, values);
+  }
+  if (!values.has(key)) values.set(key, factory());
+  return values.get(key) as V;
+};
+
+// User hooks and store calls never break a call: errors are logged and resolve to undefined (helper)
+const safely = async <R>(label: string, op: () => R | Promise<R>): Promise<R | undefined> => {
+  try {
+    return await op();
+  } catch (error) {
+    console.warn(`Error in ${label}:`, error);
+    return undefined;
+  }
+};
+
+/** --------------------------------------------------------------------
+ * Request queue: concurrency + token bucket rate limits
+ * ------------------------------------------------------------------ */
+
+interface RateLimit {
+  tokens: number; // bucket size (burst)
+  intervalMs: number; // `tokens` are refilled every intervalMs (continuously)
+}
+
+interface LimitOptions {
+  concurrency?: number; // max active requests
+  rate?: RateLimit;
+}
+
+interface QueueOptions extends LimitOptions {
+  perHost?: LimitOptions; // same limits applied to each host separately
+}
+
+/** Request queue snapshot */
+export interface QueueStats {
+  pending: number;
+  active: number;
+  completed: number; // requests that got a slot
+  avgWaitMs: number;
+  maxWaitMs: number;
+  hosts: Record<string, { pending: number; active: number }>;
+}
+
+interface RequestQueue {
+  acquire: (host: string, priority: number, signal?: AbortSignal | null, timeoutMs?: number) => Promise<() => void>;
+  stats: () => QueueStats;
+}
+
+// Token bucket with continuous refill (helper)
+const createBucket = ({ tokens, intervalMs }: RateLimit) => {
+  const capacity = Math.max(1, tokens);
+  let available = capacity;
+  let last = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    available = Math.min(capacity, available + ((now - last) * capacity) / Math.max(1, intervalMs));
+    last = now;
+  };
+
+  return {
+    // ms until one token is available (0 = now)
+    waitMs: (): number => {
+      refill();
+      return available >= 1 ? 0 : Math.ceil(((1 - available) * Math.max(1, intervalMs)) / capacity);
+    },
+    take: (): void => {
+      refill();
+      available -= 1;
+    },
+  };
+};
+
 /************************************************************************************
- * ##: Creates an Axios instance with interceptors
- * @param {ClientOptions} clientOptions - Optional Axios client configuration
+ * ##: Priority request queue with global and per-host limits
+ * Waiting requests are sorted by priority (higher first, FIFO on ties). Any request
+ * whose limits allow it starts, so a throttled host does not block the others.
+ * A waiting request leaves the queue on signal abort (ERR_CANCELED) or when the
+ * per-call timeout expires while queued (ECONNABORTED).
+ * @param {Object} options - Queue options
  * History:
- * 21-08-2025: Created
- * 27-08-2025: Fix baseUrl and timeout values - Exported with testing values
+ * 19-10-2026: Created
  ************************************************************************************/
-const apiRequest = (clientOptions: ClientOptions = {}): AxiosInstance => {
-  const { baseURL, timeout, defaultHeaders = {}, authHeaders = {}, onAuthError, onRequest, onResponse, onError } = clientOptions;
+const createRequestQueue = (options: QueueOptions): RequestQueue => {
+  type Waiter = { host: string; priority: number; seq: number; enqueuedAt: number; grant: () => void };
 
-  // Create a new axios instance with user-defined auth headers
-  const instance = axios.create({
-    baseURL,
-    timeout,
-    headers: {
-      "Content-Type": "application/json",
-      ...authHeaders,
-      ...defaultHeaders,
-    },
-  });
+  const waiting: Waiter[] = [];
+  const hostActive: Record<string, number> = {};
+  const hostBuckets: Record<string, ReturnType<typeof createBucket>> = {};
+  const globalBucket = options.rate ? createBucket(options.rate) : undefined;
+  let active = 0;
+  let seq = 0;
+  let completed = 0;
+  let totalWaitMs = 0;
+  let maxWaitMs = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
 
-  /** Attach interceptors:
-   * - Request interceptor: can mutate config (e.g. add tracing headers)
-   * - Response interceptor: trigger hooks, handle auth errors globally
-   */
-  instance.interceptors.request.use(
-    (config: InternalAxiosRequestConfig) => {
-      try {
-        if (typeof onRequest === "function") {
-          // Convert to basic config type for the hook
-          const basicConfig: AxiosRequestConfig = {
-            url: config.url,
-            method: config.method,
-            params: config.params,
-            headers: config.headers as Record<string, string>,
-            timeout: config.timeout,
-            data: config.data,
-            responseType: config.responseType,
-          };
+  const bucketFor = (host: string) => {
+    if (!options.perHost?.rate) return undefined;
+    if (!hostBuckets[host]) hostBuckets[host] = createBucket(options.perHost.rate);
+    return hostBuckets[host];
+  };
 
-          const modifiedConfig = onRequest(basicConfig);
-          if (modifiedConfig) {
-            // Apply changes back to internal config
-            Object.assign(config, modifiedConfig);
-          }
-        }
-      } catch (error) {
-        console.warn("Error in request interceptor:", error);
-      }
-      return config;
-    },
-    (error: any) => Promise.reject(error)
-  );
+  const pump = (): void => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    let retryIn = Infinity;
 
-  instance.interceptors.response.use(
-    (response: AxiosResponse) => {
-      try {
-        if (typeof onResponse === "function") onResponse(response);
-      } catch (error) {
-        console.warn("Error in response interceptor:", error);
-      }
-      return response;
-    },
-    (error: AxiosError) => {
-      try {
-        const status = error?.response?.status;
-        if ((status === 401 || status === 403) && typeof onAuthError === "function") {
-          onAuthError(error, instance); // e.g. trigger logout
-        }
-        if (typeof onError === "function") onError(error);
-      } catch (interceptorError) {
-        console.warn("Error in error interceptor:", interceptorError);
+    for (let i = 0; i < waiting.length; ) {
+      const waiter = waiting[i];
+      if (options.concurrency && active >= options.concurrency) return;
+
+      const hostBucket = bucketFor(waiter.host);
+      const hostFull = !!options.perHost?.concurrency && (hostActive[waiter.host] ?? 0) >= options.perHost.concurrency;
+      const wait = Math.max(globalBucket?.waitMs() ?? 0, hostBucket?.waitMs() ?? 0);
+
+      if (hostFull || wait > 0) {
+        if (!hostFull) retryIn = Math.min(retryIn, wait);
+        i += 1;
+        continue;
       }
-      return Promise.reject(error);
+
+      globalBucket?.take();
+      hostBucket?.take();
+      waiting.splice(i, 1);
+      waiter.grant();
     }
-  );
 
-  return instance;
+    if (retryIn !== Infinity && waiting.length) timer = setTimeout(pump, retryIn);
+  };
+
+  const acquire = (host: string, priority: number, signal?: AbortSignal | null, timeoutMs?: number): Promise<() => void> =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(new AxiosError("canceled", AxiosError.ERR_CANCELED));
+
+      let queueTimer: ReturnType<typeof setTimeout> | undefined;
+      const leave = (error: AxiosError) => {
+        const index = waiting.indexOf(waiter);
+        if (index === -1) return;
+        waiting.splice(index, 1);
+        cleanup();
+        reject(error);
+        pump();
+      };
+      const onAbort = () => leave(new AxiosError("canceled", AxiosError.ERR_CANCELED));
+      const cleanup = () => {
+        if (queueTimer) clearTimeout(queueTimer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      const waiter: Waiter = {
+        host,
+        priority,
+        seq: seq++,
+        enqueuedAt: Date.now(),
+        grant: () => {
+          cleanup();
+          const waited = Date.now() - waiter.enqueuedAt;
+          active += 1;
+          hostActive[host] = (hostActive[host] ?? 0) + 1;
+          completed += 1;
+          totalWaitMs += waited;
+          maxWaitMs = Math.max(maxWaitMs, waited);
+
+          let released = false;
+          resolve(() => {
+            if (released) return;
+            released = true;
+            active -= 1;
+            hostActive[host] -= 1;
+            pump();
+          });
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeoutMs) {
+        queueTimer = setTimeout(() => leave(new AxiosError(`timeout of ${timeoutMs}ms exceeded while queued`, AxiosError.ECONNABORTED)), timeoutMs);
+      }
+
+      // Insert by priority (higher first), FIFO among equal priorities
+      const index = waiting.findIndex((other) => other.priority < priority);
+      waiting.splice(index === -1 ? waiting.length : index, 0, waiter);
+      pump();
+    });
+
+  const stats = (): QueueStats => {
+    const hosts: QueueStats["hosts"] = {};
+    Object.keys(hostActive).forEach((host) => (hosts[host] = { pending: 0, active: hostActive[host] }));
+    waiting.forEach((waiter) => {
+      hosts[waiter.host] = hosts[waiter.host] ?? { pending: 0, active: 0 };
+      hosts[waiter.host].pending += 1;
+    });
+    return {
+      pending: waiting.length,
+      active,
+      completed,
+      avgWaitMs: completed ? Math.round(totalWaitMs / completed) : 0,
+      maxWaitMs,
+      hosts,
+    };
+  };
+
+  return { acquire, stats };
 };
 
+const resolveRequestQueue = (limits: QueueOptions): RequestQueue => sharedFor(limits, "queue", () => createRequestQueue(limits));
+
+/** --------------------------------------------------------------------
+ * Circuit breaker (per host or custom key)
+ * ------------------------------------------------------------------ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** Circuit state change, e.g. to drive a status banner */
+export interface CircuitChangeEvent {
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+  failures: number;
+  at: number;
+}
+
+interface CircuitBreakerOptions {
+  failureThreshold?: number; // consecutive failures that open the circuit (default 5)
+  cooldownMs?: number; // time open before probing again (default 30000)
+  halfOpenMaxCalls?: number; // probe calls allowed while half-open (default 1)
+  key?: (config: AxiosRequestConfig) => string; // default: request host (use e.g. a route prefix for finer circuits)
+  isFailure?: (error: AxiosError) => boolean; // default: network/timeout error or 5xx
+  onStateChange?: (event: CircuitChangeEvent) => void;
+}
+
+interface CircuitBreaker {
+  allow: (key: string) => boolean;
+  success: (key: string) => void;
+  failure: (key: string) => void;
+  release: (key: string) => void; // call finished without a verdict (e.g. canceled)
+  snapshot: () => Record<string, { state: CircuitState; failures: number; openedAt?: number }>;
+}
+
 /************************************************************************************
- * ##: Normalizers SUCCESS: force all responses into { status, data }
- * Normalize SUCCESS (HTTP 2xx)
- * @param {Object} res - Axios response object
+ * ##: Circuit breaker with closed / open / half-open states
+ * - closed: calls pass, consecutive failures are counted
+ * - open: calls are rejected until cooldownMs has passed
+ * - half-open: up to halfOpenMaxCalls probes pass; success closes, failure re-opens
+ * @param {Object} options - Circuit breaker options
  * History:
- * 16-08-2025: Created
- * 21-08-2025: Improved type safety
+ * 19-10-2026: Created
  ************************************************************************************/
-const normalizeSuccess = <T = unknown>(res: AxiosResponse<T>): ApiSuccessResponse<T> => {
-  const payload = res?.data;
-  // If server already follows our {status,data} contract, just return it
-  if (payload && typeof payload === "object" && "status" in payload && "data" in payload) {
-    const typedPayload = payload as { status: boolean; data: T };
-    if (typedPayload.status === true) {
-      return typedPayload as ApiSuccessResponse<T>;
+const createCircuitBreaker = (options: CircuitBreakerOptions): CircuitBreaker => {
+  const { failureThreshold = 5, cooldownMs = 30000, halfOpenMaxCalls = 1, onStateChange } = options;
+  const circuits: Record<string, { state: CircuitState; failures: number; openedAt?: number; probes: number }> = {};
+
+  const circuitFor = (key: string) => {
+    if (!circuits[key]) circuits[key] = { state: "closed", failures: 0, probes: 0 };
+    return circuits[key];
+  };
+
+  const transition = (key: string, to: CircuitState): void => {
+    const circuit = circuitFor(key);
+    const from = circuit.state;
+    if (from === to) return;
+    circuit.state = to;
+    circuit.probes = 0;
+    circuit.openedAt = to === "open" ? Date.now() : undefined;
+    if (to === "closed") circuit.failures = 0;
+    try {
+      if (typeof onStateChange === "function") onStateChange({ key, from, to, failures: circuit.failures, at: Date.now() });
+    } catch (error) {
+      console.warn("Error in onStateChange hook:", error);
     }
+  };
+
+  return {
+    allow: (key) => {
+      const circuit = circuitFor(key);
+      if (circuit.state === "open") {
+        if (Date.now() - (circuit.openedAt ?? 0) < cooldownMs) return false;
+        transition(key, "half-open");
+      }
+      if (circuit.state === "half-open") {
+        if (circuit.probes >= halfOpenMaxCalls) return false;
+        circuit.probes += 1;
+      }
+      return true;
+    },
+    success: (key) => {
+      const circuit = circuitFor(key);
+      if (circuit.state === "half-open") transition(key, "closed");
+      else circuit.failures = 0;
+    },
+    failure: (key) => {
+      const circuit = circuitFor(key);
+      circuit.failures += 1;
+      if (circuit.state === "half-open" || (circuit.state === "closed" && circuit.failures >= failureThreshold)) transition(key, "open");
+    },
+    release: (key) => {
+      const circuit = circuitFor(key);
+      if (circuit.state === "half-open" && circuit.probes > 0) circuit.probes -= 1;
+    },
+    snapshot: () => {
+      const result: ReturnType<CircuitBreaker["snapshot"]> = {};
+      Object.keys(circuits).forEach((key) => {
+        const { state, failures, openedAt } = circuits[key];
+        result[key] = { state, failures, openedAt };
+      });
+      return result;
+    },
+  };
+};
+
+const resolveCircuitBreaker = (options: CircuitBreakerOptions): CircuitBreaker => sharedFor(options, "breaker", () => createCircuitBreaker(options));
+
+// Host of a request config ("" when it cannot be resolved, e.g. relative baseURL) (helper)
+const hostOf = (config: AxiosRequestConfig): string => {
+  try {
+    return new URL(config.url ?? "", config.baseURL || undefined).host;
+  } catch {
+    return "";
   }
-  // Otherwise wrap raw payload
-  return { status: true, data: payload as T };
 };
 
+/** --------------------------------------------------------------------
+ * Base URL failover: ordered hosts, health tracking and cooldown
+ * ------------------------------------------------------------------ */
+
+/** Picks the base URL(s) of a request: one URL, or an ordered list to fail over through */
+export type BaseUrlResolver = (request: { method?: string; url?: string }) => string | string[] | Promise<string | string[]>;
+
+interface FailoverOptions {
+  cooldownMs?: number; // time a failed host is skipped (default 30000)
+  isFailure?: (error: AxiosError) => boolean; // default: network/timeout error or 5xx
+}
+
+/** Health of one base URL, as reported by hosts() */
+export interface HostHealth {
+  healthy: boolean;
+  failures: number; // consecutive failures
+  downUntil?: number; // epoch ms, while cooling down
+}
+
+interface HostTracker {
+  order: (hosts: string[]) => string[];
+  isUp: (host: string) => boolean;
+  success: (host: string) => void;
+  failure: (host: string) => void;
+  snapshot: () => Record<string, HostHealth>;
+}
+
+const DEFAULT_FAILOVER_COOLDOWN_MS = 30000;
+
+// Errors thrown before the request left the client: safe to send elsewhere whatever the method
+const NOT_SENT_CODES = ["ECIRCUITOPEN", "ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+const isAbsoluteUrl = (url?: string): boolean => /^[a-z][a-z\d+\-.]*:\/\//i.test(url ?? "");
+
 /************************************************************************************
- * ##: Normalizers ERROR: force all responses into { status, data }
- * Normalize ERROR (HTTP !2xx or network)
- * @param {Object} err - Axios error object
+ * ##: Host health tracker
+ * A failed host is skipped for cooldownMs; healthy hosts keep their list order and hosts
+ * still cooling down go last (soonest back first), so a call always has a host to try.
+ * @param {number} cooldownMs - Time a failed host is skipped
  * History:
- * 16-08-2025: Created
- * 21-08-2025: Improved error data extraction
+ * 19-10-2026: Created
  ************************************************************************************/
-const normalizeError = (err: AxiosError): ApiErrorResponse => {
-  const r = err?.response;
+const createHostTracker = (cooldownMs: number): HostTracker => {
+  const hosts = new Map<string, { failures: number; downUntil: number }>();
+  const downUntil = (host: string): number => hosts.get(host)?.downUntil ?? 0;
 
-  // Server already returned {status:false, data} - pass through
-  if (r?.data && typeof r.data === "object" && "status" in r.data && "data" in r.data) {
-    const typedResponse = r.data as { status: boolean; data: unknown };
-    if (typedResponse.status === false) {
-      return typedResponse as ApiErrorResponse;
-    }
-  }
+  return {
+    order: (list) => {
+      const now = Date.now();
+      const up = list.filter((host) => downUntil(host) <= now);
+      const down = list.filter((host) => downUntil(host) > now).sort((a, b) => downUntil(a) - downUntil(b));
+      return [...up, ...down];
+    },
+    isUp: (host) => downUntil(host) <= Date.now(),
+    success: (host) => {
+      hosts.set(host, { failures: 0, downUntil: 0 });
+    },
+    failure: (host) => {
+      const failures = (hosts.get(host)?.failures ?? 0) + 1;
+      hosts.set(host, { failures, downUntil: Date.now() + cooldownMs });
+    },
+    snapshot: () => {
+      const now = Date.now();
+      const result: Record<string, HostHealth> = {};
+      hosts.forEach(({ failures, downUntil: until }, host) => {
+        result[host] = until > now ? { healthy: false, failures, downUntil: until } : { healthy: true, failures };
+      });
+      return result;
+    },
+  };
+};
 
-  // Otherwise, build compact error payload
-  const responseData = r?.data as Record<string, unknown> | undefined;
-  const message = (responseData?.message as string) || (responseData?.error as string) || err?.message || "Request failed";
+// Owned by the `failover` object when given, so clients with other options can share it
+const resolveHostTracker = (clientOptions: ClientOptions): HostTracker =>
+  sharedFor(clientOptions.failover ?? clientOptions, "hosts", () => createHostTracker(clientOptions.failover?.cooldownMs ?? DEFAULT_FAILOVER_COOLDOWN_MS));
 
-  const data: ErrorData = responseData && typeof responseData === "object" ? { ...responseData, message } : { message };
+/** --------------------------------------------------------------------
+ * Observability: lifecycle events, trace context and metrics
+ * ------------------------------------------------------------------ */
 
-  if (r?.status) data.statusCode = r.status;
-  if (err?.code) data.code = err.code; // e.g. ECONNABORTED
+/** Call lifecycle: start -> attempt (-> retry-scheduled -> attempt)* -> success | failure | abort */
+export type RequestEventType = "start" | "attempt" | "retry-scheduled" | "success" | "failure" | "abort";
 
-  return { status: false, data };
+/** Event emitted for every network call made by the client. Timestamps are epoch ms */
+export interface RequestEvent {
+  type: RequestEventType;
+  requestId: string; // same for every event of a call (see RequestContext.requestId)
+  method: string;
+  url: string;
+  route: string; // metrics key, e.g. "GET /orders/:id"
+  attempt: number; // 1-based (0 on "start")
+  timestamp: number;
+  elapsedMs: number; // since "start"
+  durationMs?: number; // "attempt": that attempt, final events: the whole call
+  statusCode?: number;
+  code?: string; // error code (e.g. ECONNABORTED, EVALIDATION)
+  delayMs?: number; // "retry-scheduled": wait before the next attempt
+  traceId?: string; // set when tracing is enabled
+}
+
+export type RequestEventListener = (event: RequestEvent) => void;
+
+/** Passed to a custom tracing hook before every attempt */
+export interface TraceInfo {
+  requestId?: string;
+  traceId: string; // 32 hex chars, same for every attempt of a call
+  spanId: string; // 16 hex chars, new for every attempt
+  attempt: number;
+  method?: string;
+  url?: string;
+}
+
+interface ObservabilityOptions {
+  onEvent?: RequestEventListener; // receives every lifecycle event
+  /** true = W3C `traceparent` header on every attempt, or a hook returning the headers to inject */
+  tracing?: boolean | ((info: TraceInfo) => Record<string, string> | undefined);
+  route?: (method: string, url: string) => string; // metrics route key (default: ids in the path become ":id")
+  histogramBuckets?: number[]; // latency bucket upper bounds in ms
+}
+
+/** Metrics of one route. Latency buckets are cumulative (Prometheus style) */
+export interface RouteMetrics {
+  count: number; // finished calls
+  success: number;
+  failure: number;
+  abort: number;
+  retries: number;
+  latency: { buckets: { le: number | "+Inf"; count: number }[]; sum: number; min: number; max: number; avg: number };
+}
+
+export type MetricsSnapshot = Record<string, RouteMetrics>;
+
+// Per-call tracker handed to run() and to axios (as `_call`, for the trace header)
+interface CallTracker {
+  requestId: string;
+  traceId: string;
+  attempt: number; // current attempt, updated by run()
+  emit: (type: RequestEventType, extra?: Partial<RequestEvent>) => void;
+}
+
+interface Observer {
+  on: (type: RequestEventType | "*", listener: RequestEventListener) => () => void;
+  track: (ctx: { requestId: string; method: string; url: string }) => CallTracker;
+  metrics: () => MetricsSnapshot;
+  resetMetrics: () => void;
+}
+
+const DEFAULT_HISTOGRAM_BUCKETS = [50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+// Random lowercase hex id (trace/span ids) (helper)
+const hexId = (length: number): string => {
+  let id = "";
+  while (id.length < length) id += generateId().replace(/-/g, "");
+  return id.slice(0, length);
 };
 
-// Delay function (helper)
-const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+// "GET /orders/42?x=1" -> "GET /orders/:id" (numeric, UUID and long hex segments) (helper)
+const defaultRoute = (method: string, url: string): string => {
+  const path = url.split(/[?#]/)[0].replace(/^[a-z][a-z\d+.-]*:\/\/[^/]+/i, "");
+  const route = path
+    .split("/")
+    .map((segment) => (/^\d+$|^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$|^[0-9a-f]{24,}$/i.test(segment) ? ":id" : segment))
+    .join("/");
+  return `${method.toUpperCase()} ${route || "/"}`;
+};
 
 /************************************************************************************
- * ##: Utility function for exponential backoff with jitter
- * It computes the delay (in milliseconds) before retrying an operation.
- * ----------------------------------------------------------------------------------
- * - `attempt` -> current retry number (starting at 1)
- * - `baseDelay` -> initial delay in ms (default: `500`)
- * - `maxDelay` -> maximum allowed delay in ms (default: `10000`)
- * ----------------------------------------------------------------------------------
- * Formula: `delay = baseDelay * 2^(attempt-1)`
- * + random jitter between `80%` and `120%`
- * + capped at `maxDelay`.
- * ----------------------------------------------------------------------------------
- * Prevents overwhelming the server on retries.
- * Reduces collision between clients with random jitter.
- * @param {number} attempt - Current retry attempt (1-based)
- * @param {Object} params - Parameters for backoff computation
- * @param {number} params.baseDelayMs - Initial delay in ms (default: `500`)
- * @param {number} params.maxDelayMs - Maximum allowed delay in ms (default: `10000`)
- * @param {boolean} params.jitter - Whether to apply jitter (default: `true`)
+ * ##: Observer: event emitter + per-route metrics
+ * Metrics are derived from the events: final events (success/failure/abort) count
+ * and feed the latency histogram, "retry-scheduled" counts retries.
+ * Listener errors are logged and never break a call.
+ * @param {Object} options - Observability options
  * History:
- * 16-08-2025: Created
+ * 19-10-2026: Created
  ************************************************************************************/
-const computeBackoff = (attempt: number, { baseDelayMs, maxDelayMs, jitter }: RetryOptions): number => {
-  // Exponential backoff: baseDelay * 2^(attempt-1), capped at maxDelay
-  const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
-  if (!jitter) return exp;
-  // Add jitter: randomize up to 30% downwards
-  const rand = Math.random() * exp * 0.3;
-  return Math.min(maxDelayMs, Math.floor(exp - rand));
-};
+const createObserver = (options: ObservabilityOptions): Observer => {
+  const bounds = (options.histogramBuckets ?? DEFAULT_HISTOGRAM_BUCKETS).slice().sort((a, b) => a - b);
+  const listeners = new Map<string, Set<RequestEventListener>>();
+  type RouteStats = Omit<RouteMetrics, "latency"> & { buckets: number[]; overflow: number; sum: number; min: number; max: number };
+  let routes: Record<string, RouteStats> = {};
+
+  const record = (event: RequestEvent): void => {
+    if (event.type === "start" || event.type === "attempt") return;
+    if (!routes[event.route]) {
+      routes[event.route] = { count: 0, success: 0, failure: 0, abort: 0, retries: 0, buckets: bounds.map(() => 0), overflow: 0, sum: 0, min: Infinity, max: 0 };
+    }
+    const stats = routes[event.route];
+    if (event.type === "retry-scheduled") {
+      stats.retries += 1;
+      return;
+    }
+    const duration = event.durationMs ?? 0;
+    const index = bounds.findIndex((bound) => duration <= bound);
+    stats.count += 1;
+    stats[event.type] += 1;
+    stats.sum += duration;
+    stats.min = Math.min(stats.min, duration);
+    stats.max = Math.max(stats.max, duration);
+    if (index === -1) stats.overflow += 1;
+    else stats.buckets[index] += 1;
+  };
+
+  const deliver = (listener: RequestEventListener, event: RequestEvent): void => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.warn("Error in request event listener:", error);
+    }
+  };
+
+  const emit = (event: RequestEvent): void => {
+    record(event);
+    if (typeof options.onEvent === "function") deliver(options.onEvent, event);
+    listeners.get(event.type)?.forEach((listener) => deliver(listener, event));
+    listeners.get("*")?.forEach((listener) => deliver(listener, event));
+  };
+
+  const routeOf = (method: string, url: string): string => {
+    if (typeof options.route !== "function") return defaultRoute(method, url);
+    try {
+      return options.route(method, url);
+    } catch (error) {
+      console.warn("Error in route hook:", error);
+      return defaultRoute(method, url);
+    }
+  };
+
+  return {
+    on: (type, listener) => {
+      if (!listeners.has(type)) listeners.set(type, new Set());
+      listeners.get(type)!.add(listener);
+      return () => {
+        listeners.get(type)?.delete(listener);
+      };
+    },
+    track: ({ requestId, method, url }) => {
+      const route = routeOf(method, url);
+      let startedAt = Date.now();
+      const tracker: CallTracker = {
+        requestId,
+        traceId: hexId(32),
+        attempt: 0,
+        emit: (type, extra = {}) => {
+          const now = Date.now();
+          if (type === "start") startedAt = now;
+          const traceId = options.tracing ? tracker.traceId : undefined;
+          emit({ type, requestId, method, url, route, attempt: tracker.attempt, timestamp: now, elapsedMs: now - startedAt, traceId, ...extra });
+        },
+      };
+      return tracker;
+    },
+    metrics: () => {
+      const snapshot: MetricsSnapshot = {};
+      Object.keys(routes).forEach((route) => {
+        const { buckets, overflow, sum, min, max, ...counts } = routes[route];
+        let cumulative = 0;
+        const latencyBuckets: RouteMetrics["latency"]["buckets"] = bounds.map((le, index) => ({ le, count: (cumulative += buckets[index]) }));
+        latencyBuckets.push({ le: "+Inf", count: cumulative + overflow });
+        snapshot[route] = {
+          ...counts,
+          latency: { buckets: latencyBuckets, sum, min: counts.count ? min : 0, max, avg: counts.count ? Math.round(sum / counts.count) : 0 },
+        };
+      });
+      return snapshot;
+    },
+    resetMetrics: () => {
+      routes = {};
+    },
+  };
+};
+
+const resolveObserver = (clientOptions: ClientOptions): Observer => sharedFor(clientOptions, "observer", () => createObserver(clientOptions.observability ?? {}));
+
+/** --------------------------------------------------------------------
+ * Serialization: params styles, date reviver, key case transforms
+ * ------------------------------------------------------------------ */
+
+// Array params: repeat a=1&a=2 | brackets a[]=1&a[]=2 | comma a=1,2 | indices a[0]=1&a[1]=2
+// Nested objects always use brackets: filter[status]=open
+export type ParamsStyle = "repeat" | "brackets" | "comma" | "indices";
+export type KeyCase = "camel" | "snake";
+
+interface SerializationOptions {
+  params?: ParamsStyle | ((params: Record<string, unknown>) => string); // default: axios serializer
+  /** ISO 8601 date-time strings in response data -> Date (true), or a custom reviver */
+  reviveDates?: boolean | ((key: string, value: string) => unknown);
+  requestCase?: KeyCase; // key case sent in request bodies
+  responseCase?: KeyCase; // key case of response data (error bodies included)
+}
+
+interface Transforms {
+  serialize: (params: Record<string, unknown>) => string;
+  request: (data: unknown) => unknown;
+  response: (data: unknown) => unknown;
+}
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+// Same escaping as axios: brackets, commas and colons stay readable (helper)
+const encodeParam = (value: string): string =>
+  encodeURIComponent(value).replace(/%3A/gi, ":").replace(/%24/g, "$").replace(/%2C/gi, ",").replace(/%20/g, "+").replace(/%5B/gi, "[").replace(/%5D/gi, "]");
+
+const paramValue = (value: unknown): string => (value instanceof Date ? value.toISOString() : String(value));
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/************************************************************************************
+ * ##: Serialize params in the given style (null/undefined are skipped, Dates as ISO strings)
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const serializeParams = (params: Record<string, unknown>, style: ParamsStyle = "repeat"): string => {
+  const pairs: string[] = [];
+  const add = (key: string, value: unknown): void => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      const items = value.filter((item) => item !== undefined && item !== null);
+      if (style === "comma" && items.every((item) => !isPlainObject(item) && !Array.isArray(item))) {
+        if (items.length) pairs.push(`${encodeParam(key)}=${items.map((item) => encodeParam(paramValue(item))).join(",")}`);
+        return;
+      }
+      items.forEach((item, index) => {
+        const nested = isPlainObject(item) || Array.isArray(item);
+        add(style === "repeat" && !nested ? key : style === "brackets" && !nested ? `${key}[]` : `${key}[${index}]`, item);
+      });
+      return;
+    }
+    if (isPlainObject(value)) {
+      Object.keys(value).forEach((child) => add(`${key}[${child}]`, value[child]));
+      return;
+    }
+    pairs.push(`${encodeParam(key)}=${encodeParam(paramValue(value))}`);
+  };
+  Object.keys(params).forEach((key) => add(key, params[key]));
+  return pairs.join("&");
+};
+
+// user_id -> userId (leading underscores kept: _id stays _id) (helper)
+const toCamelCase = (key: string): string => {
+  const prefix = /^_*/.exec(key)![0];
+  return prefix + key.slice(prefix.length).replace(/_+([a-zA-Z0-9])/g, (_match, char: string) => char.toUpperCase());
+};
+
+// userId -> user_id, HTTPServer -> http_server (helper)
+const toSnakeCase = (key: string): string =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .toLowerCase();
+
+// Deep copy of plain objects/arrays with mapped keys and values; anything else (Blob, FormData, Date...) as is (helper)
+const mapData = (data: unknown, mapKey: ((key: string) => string) | undefined, mapValue: (key: string, value: unknown) => unknown, key: string = ""): unknown => {
+  if (Array.isArray(data)) return data.map((item) => mapData(item, mapKey, mapValue, key));
+  if (isPlainObject(data)) {
+    const copy: Record<string, unknown> = {};
+    Object.keys(data).forEach((child) => {
+      copy[mapKey ? mapKey(child) : child] = mapData(data[child], mapKey, mapValue, child);
+    });
+    return copy;
+  }
+  return mapValue(key, data);
+};
+
+const caseMapper = (keyCase?: KeyCase): ((key: string) => string) | undefined =>
+  keyCase === "camel" ? toCamelCase : keyCase === "snake" ? toSnakeCase : undefined;
+
+/************************************************************************************
+ * ##: Request/response transforms of a client (identity when nothing is configured)
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const createTransforms = (options: SerializationOptions = {}): Transforms => {
+  const { params, reviveDates } = options;
+  const requestKey = caseMapper(options.requestCase);
+  const responseKey = caseMapper(options.responseCase);
+  const identity = (_key: string, value: unknown): unknown => value;
+
+  const revive = (key: string, value: unknown): unknown => {
+    if (typeof value !== "string") return value;
+    if (typeof reviveDates === "function") {
+      try {
+        return reviveDates(key, value);
+      } catch (error) {
+        console.warn("Error in date reviver:", error);
+        return value;
+      }
+    }
+    if (!ISO_DATE_TIME.test(value)) return value;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  };
+
+  return {
+    serialize: typeof params === "function" ? params : (query) => serializeParams(query, params),
+    request: (data) => (requestKey ? mapData(data, requestKey, identity) : data),
+    response: (data) => (responseKey || reviveDates ? mapData(data, responseKey, reviveDates ? revive : identity) : data),
+  };
+};
+
+/** --------------------------------------------------------------------
+ * Auth strategies: bearer, basic, API key, HMAC signing
+ * ------------------------------------------------------------------ */
+
+/** Outgoing request as seen by an auth strategy: add headers or query params to it */
+export interface AuthRequest {
+  method: string; // upper case
+  url: string; // full URL (base URL, path and query)
+  path: string; // e.g. "/v1/orders"
+  query: string; // canonical query: pairs sorted by name then value, RFC 3986 encoded
+  headers: Record<string, string>; // headers to set
+  params: Record<string, unknown>; // query params to add
+  bodyHash: () => Promise<string>; // hex SHA-256 of the exact body sent ("UNSIGNED-PAYLOAD" for FormData/streams)
+}
+
+type Secret = string | (() => string | Promise<string>);
+
+/** auth option: a built-in strategy, or a function decorating every attempt */
+export type AuthStrategy =
+  | { type: "bearer"; getToken: (request: AuthRequest) => string | null | undefined | Promise<string | null | undefined>; headerName?: string; scheme?: string }
+  | { type: "basic"; username: string; password: Secret }
+  | { type: "apiKey"; key: Secret; in?: "header" | "query"; name?: string } // name default "X-API-Key" (header) / "api_key" (query)
+  | {
+      type: "hmac";
+      keyId: string;
+      secret: Secret;
+      algorithm?: "SHA-256" | "SHA-512"; // default "SHA-256"
+      encoding?: "hex" | "base64"; // signature encoding (default "hex")
+      headers?: Partial<Record<"keyId" | "timestamp" | "nonce" | "bodyHash" | "signature", string>>; // header names
+    }
+  | ((request: AuthRequest) => void | Promise<void>);
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+const DEFAULT_HMAC_HEADERS = {
+  keyId: "X-Key-Id",
+  timestamp: "X-Timestamp",
+  nonce: "X-Nonce",
+  bodyHash: "X-Content-SHA256",
+  signature: "X-Signature",
+};
+
+const utf8 = (text: string): Uint8Array<ArrayBuffer> => new TextEncoder().encode(text);
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const toBase64 = (bytes: Uint8Array): string => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+
+// encodeURIComponent plus the RFC 3986 reserved !'()* (helper)
+const encodeRfc3986 = (value: string): string => encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const canonicalQuery = (search: URLSearchParams): string =>
+  Array.from(search.entries())
+    .sort(([aKey, aValue], [bKey, bValue]) => (aKey === bKey ? (aValue < bValue ? -1 : aValue > bValue ? 1 : 0) : aKey < bKey ? -1 : 1))
+    .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+    .join("&");
+
+const resolveSecret = async (secret: Secret): Promise<string> => (typeof secret === "function" ? secret() : secret);
+
+// HMAC of a message: Web Crypto when available, node:crypto otherwise (helper)
+const hmac = async (algorithm: "SHA-256" | "SHA-512", secret: string, message: string): Promise<Uint8Array> => {
+  const subtle = typeof globalThis.crypto === "object" ? globalThis.crypto.subtle : undefined;
+  if (subtle) {
+    const key = await subtle.importKey("raw", utf8(secret), { name: "HMAC", hash: algorithm }, false, ["sign"]);
+    return new Uint8Array(await subtle.sign("HMAC", key, utf8(message)));
+  }
+  const { createHmac } = await import("node:crypto");
+  return new Uint8Array(createHmac(algorithm.replace("-", "").toLowerCase(), secret).update(message).digest());
+};
+
+// String body as axios's transformRequest sends it: with a JSON Content-Type, valid JSON is trimmed
+// and any other text is JSON-encoded ("plain text" -> "\"plain text\"") (helper)
+const serializeText = (config: ClientRequestConfig, text: string): string => {
+  if (!String(config.headers.getContentType() ?? "").includes("application/json")) return text;
+  try {
+    JSON.parse(text);
+    return text.trim();
+  } catch {
+    return JSON.stringify(text);
+  }
+};
+
+/************************************************************************************
+ * ##: SHA-256 of the body axios is about to send
+ * Plain objects/arrays and strings are serialized here the way axios would (config.data becomes
+ * that string), so the hash covers the exact bytes. FormData and streams are framed by the
+ * adapter: UNSIGNED-PAYLOAD.
+ * History:
+ * 19-10-2026: Created
+ * 19-10-2026: String bodies are JSON-encoded first when the Content-Type is JSON
+ ************************************************************************************/
+const hashBody = async (config: ClientRequestConfig): Promise<string> => {
+  const data = config.data as unknown;
+  if (data === undefined || data === null) return sha256Hex("");
+  if (typeof data === "string") {
+    config.data = serializeText(config, data);
+    return sha256Hex(config.data as string);
+  }
+  if (typeof URLSearchParams !== "undefined" && data instanceof URLSearchParams) return sha256Hex(data.toString());
+  if (data instanceof ArrayBuffer) return sha256Hex(new Uint8Array(data));
+  if (ArrayBuffer.isView(data)) {
+    const bytes = new Uint8Array(data.byteLength);
+    bytes.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    return sha256Hex(bytes);
+  }
+  if (typeof Blob !== "undefined" && data instanceof Blob) return sha256Hex(new Uint8Array(await data.arrayBuffer()));
+  if (typeof FormData !== "undefined" && data instanceof FormData) return UNSIGNED_PAYLOAD;
+  if (typeof data === "object" && (typeof (data as NodeReadableLike).pipe === "function" || typeof (data as ReadableStream).getReader === "function")) {
+    return UNSIGNED_PAYLOAD;
+  }
+  config.data = JSON.stringify(data);
+  return sha256Hex(config.data as string);
+};
+
+/************************************************************************************
+ * ##: Built-in strategies
+ * HMAC string to sign (lines joined by "\n"):
+ * METHOD, path, canonical query, body SHA-256 (hex), timestamp (unix seconds), nonce
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const builtInAuth = async (strategy: Exclude<AuthStrategy, Function>, request: AuthRequest): Promise<void> => {
+  switch (strategy.type) {
+    case "bearer": {
+      const { headerName = "Authorization", scheme = "Bearer" } = strategy;
+      const token = await strategy.getToken(request);
+      if (token) request.headers[headerName] = scheme ? `${scheme} ${token}` : token;
+      return;
+    }
+    case "basic": {
+      const password = await resolveSecret(strategy.password);
+      request.headers["Authorization"] = `Basic ${toBase64(utf8(`${strategy.username}:${password}`))}`;
+      return;
+    }
+    case "apiKey": {
+      const key = await resolveSecret(strategy.key);
+      if (strategy.in === "query") request.params[strategy.name ?? "api_key"] = key;
+      else request.headers[strategy.name ?? "X-API-Key"] = key;
+      return;
+    }
+    case "hmac": {
+      const { keyId, algorithm = "SHA-256", encoding = "hex" } = strategy;
+      const names = { ...DEFAULT_HMAC_HEADERS, ...strategy.headers };
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const nonce = hexId(32);
+      const bodyHash = await request.bodyHash();
+      const signed = [request.method, request.path, request.query, bodyHash, timestamp, nonce].join("\n");
+      const signature = await hmac(algorithm, await resolveSecret(strategy.secret), signed);
+      request.headers[names.keyId] = keyId;
+      request.headers[names.timestamp] = timestamp;
+      request.headers[names.nonce] = nonce;
+      request.headers[names.bodyHash] = bodyHash;
+      request.headers[names.signature] = encoding === "base64" ? toBase64(signature) : toHex(signature);
+      return;
+    }
+  }
+};
+
+// Runs the strategy on one outgoing request and applies its headers/params to the config (helper)
+const authorize = async (strategy: AuthStrategy, config: ClientRequestConfig, uri: string): Promise<void> => {
+  const target = new URL(uri, "http://localhost"); // relative base URLs (browsers) only need path and query
+  let hashed: Promise<string> | undefined;
+  const request: AuthRequest = {
+    method: (config.method ?? "get").toUpperCase(),
+    url: uri,
+    path: target.pathname,
+    query: canonicalQuery(target.searchParams),
+    headers: {},
+    params: {},
+    bodyHash: () => (hashed = hashed ?? hashBody(config)),
+  };
+  if (typeof strategy === "function") await strategy(request);
+  else await builtInAuth(strategy, request);
+  Object.keys(request.headers).forEach((name) => (config.headers[name] = request.headers[name]));
+  if (Object.keys(request.params).length) config.params = { ...config.params, ...request.params };
+};
+
+/** --------------------------------------------------------------------
+ * Token refresh (single-flight)
+ * ------------------------------------------------------------------ */
+
+interface TokenRefresh {
+  pending: () => Promise<string> | null; // refresh in flight, if any
+  latest: () => string | undefined; // last refreshed token
+  refresh: () => Promise<string>; // starts a refresh or joins the one in flight
+}
+
+type RefreshToken = NonNullable<ClientOptions["refreshToken"]>;
+
+const createTokenRefresh = (refreshToken: RefreshToken): TokenRefresh => {
+  // Shared refresh promise: every 401 (and every new request) waits on the same refresh
+  let refreshing: Promise<string> | null = null;
+  // Last refreshed token: a 401 of a request sent with an older token replays with it (no new refresh)
+  let latestToken: string | undefined;
+
+  return {
+    pending: () => refreshing,
+    latest: () => latestToken,
+    refresh: () => {
+      if (!refreshing) {
+        const clear = () => {
+          refreshing = null;
+        };
+        refreshing = Promise.resolve()
+          .then(() => refreshToken())
+          .then((token) => {
+            if (!token) throw new Error("Token refresh returned an empty token");
+            latestToken = token;
+            return token;
+          });
+        refreshing.then(clear, clear);
+      }
+      return refreshing;
+    },
+  };
+};
+
+// Owned by the refreshToken function, so a client and its extend() children refresh once
+const resolveTokenRefresh = (refreshToken: RefreshToken): TokenRefresh => sharedFor(refreshToken, "refresh", () => createTokenRefresh(refreshToken));
+
+/************************************************************************************
+ * ##: Creates an Axios instance with interceptors
+ * @param {ClientOptions} clientOptions - Optional Axios client configuration
+ * History:
+ * 21-08-2025: Created
+ * 27-08-2025: Fix baseUrl and timeout values - Exported with testing values
+ * 19-10-2026: Added token provider and single-flight refresh with request replay
+ * 19-10-2026: Late 401s of requests sent with an older token replay with the refreshed one
+ * 19-10-2026: Request queue (concurrency and rate limits)
+ * 19-10-2026: Circuit breaker
+ * 19-10-2026: Custom adapter option
+ * 19-10-2026: Trace context header (observability.tracing)
+ * 19-10-2026: Params serializer, date reviver and key case transforms (serialization)
+ * 19-10-2026: Base URL list/resolver with failover and host health
+ * 19-10-2026: Auth strategies (bearer, basic, API key, HMAC), applied on every attempt
+ * 19-10-2026: Refresh state shared by clients with the same refreshToken function
+ ************************************************************************************/
+const apiRequest = (clientOptions: ClientOptions = {}): AxiosInstance => {
+  const {
+    baseURL,
+    timeout,
+    adapter,
+    defaultHeaders = {},
+    authHeaders = {},
+    getToken,
+    refreshToken,
+    authHeaderName = "Authorization",
+    authScheme = "Bearer",
+    onAuthError,
+    onRequest,
+    onResponse,
+    onError,
+  } = clientOptions;
+
+  const serialization = clientOptions.serialization;
+  const transforms = createTransforms(serialization);
+
+  // Create a new axios instance with user-defined auth headers
+  const instance = axios.create({
+    baseURL: typeof baseURL === "string" ? baseURL : undefined,
+    timeout,
+    ...(adapter ? { adapter } : {}),
+    ...(serialization?.params ? { paramsSerializer: { serialize: transforms.serialize } } : {}),
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders,
+      ...defaultHeaders,
+    },
+  });
+
+  // Auth strategy. Registered first: its request interceptor runs last, right before sending, so
+  // signatures cover the final URL and body and are recomputed on every attempt and replay.
+  const auth = clientOptions.auth;
+  if (auth) {
+    instance.interceptors.request.use(async (config: ClientRequestConfig) => {
+      try {
+        await authorize(auth, config, instance.getUri(config));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new AxiosError(message || "Auth strategy failed", "EAUTH", config);
+      }
+      return config;
+    });
+  }
+
+  // Key case and date transforms. Registered right after auth: the body is transformed after
+  // middleware and hooks, and response data before every other interceptor sees it.
+  if (serialization?.requestCase || serialization?.responseCase || serialization?.reviveDates) {
+    instance.interceptors.request.use((config: ClientRequestConfig) => {
+      if (!config._rawBody) config.data = transforms.request(config.data);
+      return config;
+    });
+
+    instance.interceptors.response.use(
+      (response: AxiosResponse) => {
+        response.data = transforms.response(response.data);
+        return response;
+      },
+      (error: AxiosError) => {
+        if (error?.response) error.response.data = transforms.response(error.response.data);
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  // Request queue (concurrency/rate limits). Registered after auth and the transforms. Request
+  // interceptors run in reverse registration order: failover, tracing, circuit breaker,
+  // token/onRequest, this queue, transforms, auth (right before sending). Response interceptors run
+  // in registration order, so the slot is released right after the transforms, before the 401 refresh.
+  const queue = clientOptions.limits ? resolveRequestQueue(clientOptions.limits) : undefined;
+  if (queue) {
+    const release = (config?: ClientRequestConfig): void => {
+      if (!config?._release) return;
+      config._release();
+      config._release = undefined;
+    };
+
+    instance.interceptors.request.use(async (config: ClientRequestConfig) => {
+      const queuedAt = Date.now();
+      const timeoutMs = config.timeout || undefined;
+      config._release = await queue.acquire(hostOf(config), config.priority ?? 0, config.signal as AbortSignal | undefined, timeoutMs);
+      // Time spent queued counts against the per-call timeout
+      if (timeoutMs) config.timeout = Math.max(1, timeoutMs - (Date.now() - queuedAt));
+      return config;
+    });
+
+    instance.interceptors.response.use(
+      (response: AxiosResponse) => {
+        release(response.config as ClientRequestConfig);
+        return response;
+      },
+      (error: AxiosError) => {
+        release(error?.config as ClientRequestConfig | undefined);
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  // Single-flight refresh, shared with clients using the same refreshToken function
+  const tokenRefresh = typeof refreshToken === "function" ? resolveTokenRefresh(refreshToken) : undefined;
+
+  const setToken = (config: ClientRequestConfig, token: string): void => {
+    config.headers[authHeaderName] = authScheme ? `${authScheme} ${token}` : token;
+    config._sentToken = token;
+  };
+
+  /** Attach interceptors:
+   * - Request interceptor: injects the current token, can mutate config (e.g. add tracing headers)
+   * - Response interceptor: trigger hooks, refresh token and replay on 401, handle auth errors globally
+   */
+  instance.interceptors.request.use(
+    async (config: ClientRequestConfig) => {
+      // Replays already carry the refreshed token
+      if (!config._authRetry) {
+        try {
+          // Queue new requests while a refresh is in flight
+          const refreshing = tokenRefresh?.pending();
+          if (refreshing) await refreshing.catch(() => undefined);
+          if (typeof getToken === "function") {
+            const token = await getToken();
+            if (token) setToken(config, token);
+          }
+        } catch (error) {
+          console.warn("Error in token provider:", error);
+        }
+      }
+
+      try {
+        if (typeof onRequest === "function") {
+          // Convert to basic config type for the hook
+          const basicConfig: AxiosRequestConfig = {
+            url: config.url,
+            method: config.method,
+            params: config.params,
+            headers: config.headers as Record<string, string>,
+            timeout: config.timeout,
+            data: config.data,
+            responseType: config.responseType,
+          };
+
+          const modifiedConfig = onRequest(basicConfig);
+          if (modifiedConfig) {
+            // Apply changes back to internal config
+            Object.assign(config, modifiedConfig);
+          }
+        }
+      } catch (error) {
+        console.warn("Error in request interceptor:", error);
+      }
+      return config;
+    },
+    (error: any) => Promise.reject(error)
+  );
+
+  instance.interceptors.response.use(
+    (response: AxiosResponse) => {
+      try {
+        if (typeof onResponse === "function") onResponse(response);
+      } catch (error) {
+        console.warn("Error in response interceptor:", error);
+      }
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error?.config as ClientRequestConfig | undefined;
+
+      // 401 with a refresh function: refresh once, then replay with the new token.
+      // Sent with an older token than the last refreshed one (slow 401): replay right away.
+      if (error?.response?.status === 401 && tokenRefresh && config && !config._authRetry) {
+        const refreshing = tokenRefresh.pending();
+        const latestToken = tokenRefresh.latest();
+        let token: string;
+        try {
+          token = refreshing ? await refreshing : latestToken !== undefined && latestToken !== config._sentToken ? latestToken : await tokenRefresh.refresh();
+        } catch (refreshError) {
+          const authError = new AxiosError("Token refresh failed", "EAUTHREFRESH", config, error.request, error.response);
+          try {
+            if (typeof onAuthError === "function") onAuthError(authError, instance); // e.g. trigger logout
+            if (typeof onError === "function") onError(authError);
+          } catch (interceptorError) {
+            console.warn("Error in error interceptor:", interceptorError);
+          }
+          return Promise.reject(authError);
+        }
+        config._authRetry = true;
+        setToken(config, token);
+        return instance.request(config);
+      }
+
+      try {
+        const status = error?.response?.status;
+        if ((status === 401 || status === 403) && typeof onAuthError === "function") {
+          onAuthError(error, instance); // e.g. trigger logout
+        }
+        if (typeof onError === "function") onError(error);
+      } catch (interceptorError) {
+        console.warn("Error in error interceptor:", interceptorError);
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  // Circuit breaker. Registered after the request queue: its request interceptor runs before it,
+  // so open circuits are rejected before waiting in the request queue.
+  const breakerOptions = clientOptions.circuitBreaker;
+  if (breakerOptions) {
+    const breaker = resolveCircuitBreaker(breakerOptions);
+    const isFailure = breakerOptions.isFailure ?? ((error: AxiosError) => !error?.response || error.response.status >= 500);
+
+    instance.interceptors.request.use((config: ClientRequestConfig) => {
+      const key = breakerOptions.key ? breakerOptions.key(config) : hostOf(config);
+      if (!breaker.allow(key)) {
+        return Promise.reject(new AxiosError(`Circuit open for ${key || "requests"}`, "ECIRCUITOPEN", config));
+      }
+      config._circuitKey = key;
+      return config;
+    });
+
+    instance.interceptors.response.use(
+      (response: AxiosResponse) => {
+        const key = (response.config as ClientRequestConfig)._circuitKey;
+        if (key !== undefined) breaker.success(key);
+        return response;
+      },
+      (error: AxiosError) => {
+        const config = error?.config as ClientRequestConfig | undefined;
+        const key = config?._circuitKey;
+        if (key !== undefined && config) {
+          config._circuitKey = undefined; // record each attempt once
+          if (isCancel(error)) breaker.release(key);
+          else if (isFailure(error)) breaker.failure(key);
+          else breaker.success(key); // e.g. 4xx: the host is up
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  // Trace context: one traceId per call, a new spanId per run() attempt.
+  // A traceparent already present (caller-provided or an auth replay) is kept as is.
+  const tracing = clientOptions.observability?.tracing;
+  if (tracing) {
+    instance.interceptors.request.use((config: ClientRequestConfig) => {
+      const call = config._call;
+      const info: TraceInfo = {
+        requestId: call?.requestId,
+        traceId: call?.traceId ?? hexId(32),
+        spanId: hexId(16),
+        attempt: call?.attempt || 1,
+        method: config.method,
+        url: config.url,
+      };
+      try {
+        if (typeof tracing === "function") {
+          const headers = tracing(info);
+          if (headers) Object.keys(headers).forEach((name) => (config.headers[name] = headers[name]));
+        } else if (!config.headers["traceparent"]) {
+          config.headers["traceparent"] = `00-${info.traceId}-${info.spanId}-01`;
+        }
+      } catch (error) {
+        console.warn("Error in tracing hook:", error);
+      }
+      return config;
+    });
+  }
+
+  // Base URL failover. Registered last: the host is picked before the circuit breaker and the
+  // request queue run (both key on it), and failed hosts are reported after them.
+  if (Array.isArray(baseURL) || typeof baseURL === "function") {
+    const hosts = resolveHostTracker(clientOptions);
+    const isFailure = clientOptions.failover?.isFailure ?? ((error: AxiosError) => !error?.response || error.response.status >= 500);
+    const retryPolicy: RetryOptions = { ...DEFAULT_RETRY, ...clientOptions.retry };
+
+    // Another host gets the request when it was never sent, or when the method may be retried
+    const canFailover = (error: AxiosError, config: ClientRequestConfig): boolean => {
+      if (NOT_SENT_CODES.includes(error?.code ?? "")) return true;
+      const method = config.method?.toLowerCase() ?? "get";
+      return retryPolicy.retryNonIdempotent || retryPolicy.methods.map((m) => m.toLowerCase()).includes(method);
+    };
+
+    instance.interceptors.request.use(async (config: ClientRequestConfig) => {
+      // Failover and auth replays already carry their host
+      if (config._hosts !== undefined || isAbsoluteUrl(config.url)) return config;
+      let resolved: string | string[];
+      try {
+        resolved = typeof baseURL === "function" ? await baseURL({ method: config.method, url: config.url }) : baseURL;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new AxiosError(message || "Base URL resolver failed", "EBASEURL", config);
+      }
+      const [first, ...rest] = hosts.order((Array.isArray(resolved) ? resolved : [resolved]).filter(Boolean));
+      config.baseURL = first;
+      config._hosts = rest;
+      return config;
+    });
+
+    instance.interceptors.response.use(
+      (response: AxiosResponse) => {
+        const config = response.config as ClientRequestConfig;
+        if (config._hosts !== undefined && config.baseURL) hosts.success(config.baseURL);
+        return response;
+      },
+      (error: AxiosError) => {
+        const config = error?.config as ClientRequestConfig | undefined;
+        const host = config?.baseURL;
+        if (!config || !host || config._hosts === undefined || isCancel(error)) return Promise.reject(error);
+        if (!isFailure(error)) {
+          hosts.success(host); // e.g. 4xx: the host is up
+          return Promise.reject(error);
+        }
+        hosts.failure(host);
+        // Only hosts not cooling down; the next run() attempt starts over from the healthiest one
+        const next = config._hosts.find((candidate) => hosts.isUp(candidate));
+        if (!next || config.signal?.aborted || !canFailover(error, config)) return Promise.reject(error);
+        config.baseURL = next;
+        config._hosts = config._hosts.filter((candidate) => candidate !== next);
+        return instance.request(config);
+      }
+    );
+  }
+
+  return instance;
+};
+
+// Interceptor as stored by axios (ejected ones are null)
+type InterceptorHandler = {
+  fulfilled?: (value: unknown) => unknown;
+  rejected?: (error: unknown) => unknown;
+  runWhen?: ((config: InternalAxiosRequestConfig) => boolean) | null;
+} | null;
+
+// Interceptors registered on an instance, in registration order (helper)
+const handlersOf = (manager: object): InterceptorHandler[] => (manager as unknown as { handlers: InterceptorHandler[] }).handlers;
+
+/************************************************************************************
+ * ##: Forward the interceptors callers add on a parent's `raw` to a derived instance
+ * Interceptors are read when each request runs, so ones added (or ejected) after
+ * extend() apply too. The client's own interceptors (the first `builtIn` ones) are skipped.
+ * On the derived instance they run where interceptors added on its own `raw` would:
+ * requests before the built-in ones, responses after them.
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const forwardInterceptors = (target: AxiosInstance, source: AxiosInstance, builtIn: { request: number; response: number }): void => {
+  const chain = <V>(handlers: InterceptorHandler[], start: Promise<V>): Promise<V> =>
+    handlers.reduce<Promise<unknown>>((promise, handler) => (handler ? promise.then(handler.fulfilled, handler.rejected) : promise), start) as Promise<V>;
+
+  // Axios runs request interceptors in reverse registration order
+  const requestHandlers = (config: InternalAxiosRequestConfig): InterceptorHandler[] =>
+    handlersOf(source.interceptors.request)
+      .slice(builtIn.request)
+      .filter((handler) => handler && (typeof handler.runWhen !== "function" || handler.runWhen(config)))
+      .reverse();
+  const responseHandlers = (): InterceptorHandler[] => handlersOf(source.interceptors.response).slice(builtIn.response);
+
+  target.interceptors.request.use(
+    (config) => chain(requestHandlers(config), Promise.resolve(config)),
+    (error) => chain(requestHandlers(error?.config ?? {}), Promise.reject(error))
+  );
+  target.interceptors.response.use(
+    (response) => chain(responseHandlers(), Promise.resolve(response)),
+    (error) => chain(responseHandlers(), Promise.reject(error))
+  );
+};
+
+/************************************************************************************
+ * ##: Normalizers SUCCESS: force all responses into { status, data }
+ * Normalize SUCCESS (HTTP 2xx)
+ * @param {Object} res - Axios response object
+ * History:
+ * 16-08-2025: Created
+ * 21-08-2025: Improved type safety
+ ************************************************************************************/
+const normalizeSuccess = <T = unknown>(res: AxiosResponse<T>): ApiSuccessResponse<T> => {
+  const payload = res?.data;
+  // If server already follows our {status,data} contract, just return it
+  if (payload && typeof payload === "object" && "status" in payload && "data" in payload) {
+    const typedPayload = payload as { status: boolean; data: T };
+    if (typedPayload.status === true) {
+      return typedPayload as ApiSuccessResponse<T>;
+    }
+  }
+  // Otherwise wrap raw payload
+  return { status: true, data: payload as T };
+};
+
+/************************************************************************************
+ * ##: Normalizers ERROR: force all responses into { status, data }
+ * Normalize ERROR (HTTP !2xx or network)
+ * @param {Object} err - Axios error object
+ * History:
+ * 16-08-2025: Created
+ * 21-08-2025: Improved error data extraction
+ ************************************************************************************/
+const normalizeError = (err: AxiosError): ApiErrorResponse => {
+  const r = err?.response;
+
+  // Server already returned {status:false, data} - pass through
+  if (r?.data && typeof r.data === "object" && "status" in r.data && "data" in r.data) {
+    const typedResponse = r.data as { status: boolean; data: unknown };
+    if (typedResponse.status === false) {
+      return typedResponse as ApiErrorResponse;
+    }
+  }
+
+  // Otherwise, build compact error payload
+  const responseData = r?.data as Record<string, unknown> | undefined;
+  const message = (responseData?.message as string) || (responseData?.error as string) || err?.message || "Request failed";
+
+  const data: ErrorData = responseData && typeof responseData === "object" ? { ...responseData, message } : { message };
+
+  if (r?.status) data.statusCode = r.status;
+  if (err?.code) data.code = err.code; // e.g. ECONNABORTED
+
+  return { status: false, data };
+};
+
+// Delay function (helper)
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/************************************************************************************
+ * ##: Parse a Retry-After header value into milliseconds
+ * Accepts both forms from RFC 9110: delay-seconds ("120") and HTTP-date.
+ * Returns undefined when missing or unparsable.
+ * @param {string} value - Retry-After header value
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const parseRetryAfter = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const raw = String(value).trim();
+  if (/^\d+$/.test(raw)) return Number(raw) * 1000;
+  const date = Date.parse(raw);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+};
+
+/************************************************************************************
+ * ##: Utility function for exponential backoff with jitter
+ * It computes the delay (in milliseconds) before retrying an operation.
+ * ----------------------------------------------------------------------------------
+ * - `attempt` -> current retry number (starting at 1)
+ * - `baseDelay` -> initial delay in ms (default: `500`)
+ * - `maxDelay` -> maximum allowed delay in ms (default: `10000`)
+ * ----------------------------------------------------------------------------------
+ * Formula: `delay = baseDelay * 2^(attempt-1)`
+ * + random jitter between `80%` and `120%`
+ * + capped at `maxDelay`.
+ * When the error carries a `Retry-After` header (429/503), that value wins,
+ * capped at `maxRetryAfterMs`.
+ * ----------------------------------------------------------------------------------
+ * Prevents overwhelming the server on retries.
+ * Reduces collision between clients with random jitter.
+ * @param {number} attempt - Current retry attempt (1-based)
+ * @param {Object} params - Parameters for backoff computation
+ * @param {number} params.baseDelayMs - Initial delay in ms (default: `500`)
+ * @param {number} params.maxDelayMs - Maximum allowed delay in ms (default: `10000`)
+ * @param {boolean} params.jitter - Whether to apply jitter (default: `true`)
+ * @param {Object} err - Optional failed attempt error (used for Retry-After)
+ * History:
+ * 16-08-2025: Created
+ * 19-10-2026: Honor Retry-After header
+ ************************************************************************************/
+type BackoffOptions = Pick<RetryOptions, "baseDelayMs" | "maxDelayMs" | "jitter"> & Partial<Pick<RetryOptions, "respectRetryAfter" | "maxRetryAfterMs">>;
+
+const computeBackoff = (attempt: number, options: BackoffOptions, err?: AxiosError): number => {
+  const { baseDelayMs, maxDelayMs, jitter, respectRetryAfter = true, maxRetryAfterMs = DEFAULT_RETRY.maxRetryAfterMs } = options;
+  if (respectRetryAfter && err) {
+    const retryAfter = parseRetryAfter(err.response?.headers?.["retry-after"]);
+    if (retryAfter !== undefined) return Math.min(maxRetryAfterMs, retryAfter);
+  }
+  // Exponential backoff: baseDelay * 2^(attempt-1), capped at maxDelay
+  const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  if (!jitter) return exp;
+  // Add jitter: randomize up to 30% downwards
+  const rand = Math.random() * exp * 0.3;
+  return Math.min(maxDelayMs, Math.floor(exp - rand));
+};
+
+// Cancel/abort detection (helper)
+const isCancel = (err: AxiosError): boolean => axios.isCancel(err) || (err as AxiosError)?.code === "ERR_CANCELED";
+
+/************************************************************************************
+ * ##: Define which errors are worth retrying
+ * - never on cancel/abort, open circuit or auth failure (EAUTH/EAUTHREFRESH)
+ * - custom `shouldRetry` wins when it returns a boolean
+ * - non-idempotent methods (POST/PATCH) only when `retryNonIdempotent` is set
+ * - network/timeout errors and statuses listed in `retryOn`
+ * @param {Object} err - Error object
+ * @param {number} attempt - Attempt that just failed (1-based)
+ * @param {Object} retry - Retry policy
+ * History:
+ * 16-08-2025: Created
+ * 21-08-2025: Improved logic to avoid retries on cancel/abort
+ * 19-10-2026: Per-status, per-method and custom predicate policy
+ * 19-10-2026: Never retry ECIRCUITOPEN
+ * 19-10-2026: Never retry EAUTH and EAUTHREFRESH
+ ************************************************************************************/
+const isRetriable = (err: AxiosError, attempt: number = 1, retry: RetryOptions = DEFAULT_RETRY): boolean => {
+  if (isCancel(err) || err?.code === "ECIRCUITOPEN") return false;
+  if (err?.code === "EAUTH" || err?.code === "EAUTHREFRESH") return false; // a failed auth strategy or refresh fails the same way again
+
+  if (typeof retry.shouldRetry === "function") {
+    const decision = retry.shouldRetry(err, attempt);
+    if (typeof decision === "boolean") return decision;
+  }
+
+  const method = err?.config?.method?.toLowerCase();
+  if (method && !retry.retryNonIdempotent && !retry.methods.map((m) => m.toLowerCase()).includes(method)) return false;
+
+  const status = err?.response?.status;
+  if (!status) return true; // network/timeout
+  return retry.retryOn.includes(status);
+};
+
+// Signal and timeout of one attempt (deadline-aware), passed by run() to the call
+interface AttemptConfig {
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+interface RunOptions<T> {
+  retry?: Partial<RetryOptions>;
+  schema?: Validator<T>;
+  reportSchema?: Validator<T>; // checked for events only: a rejected payload ends the call as failure, the raw result is returned
+  settle?: (result: ApiResponse<T>) => ApiResponse<T>; // maps the response to the call outcome (e.g. GraphQL errors on HTTP 200), before schema and events
+  call?: CallTracker;
+  signal?: AbortSignal; // caller's signal
+  timeout?: number; // per-attempt timeout
+  deadlineMs?: number; // budget of the whole call (attempts + backoff)
+}
+
+/**
+ * **********************************************************************************
+ * ##: Runner: wraps any axios call
+ * Handles retries, Normalizes result, Never throws (always returns {status,data})
+ * It guarantees a normalized result in the shape:
+ * { status: true, data } on success
+ * { status: false, data: { ...error } } on failure  
+ * History:
+ * 16-08-2025: Created
+ * 21-08-2025: Improved error handling and types
+ * 19-10-2026: Retry policy (status/method/predicate), Retry-After and onAttempt hook
+ * 19-10-2026: Optional schema validation of the success payload
+ * 19-10-2026: Lifecycle events (call tracker), attempts and durationMs on errors
+ * 19-10-2026: Overall deadline (EDEADLINE): fn receives the signal and timeout of each attempt
+ * 19-10-2026: reportSchema: payloads validated by the caller (shared GETs) are reported as failures when rejected
+ * 19-10-2026: settle: protocol errors in a 2xx body (GraphQL, JSON-RPC) end the call as failure
+/************************************************************************************/
+const run = async <T = unknown>(
+  fn: (attempt: AttemptConfig) => Promise<AxiosResponse<T>>,
+  options: RunOptions<T> = {}
+): Promise<ApiResponse<T>> => {
+  let attempt = 0;
+  const retry: RetryOptions = { ...DEFAULT_RETRY, ...(options.retry ?? {}) };
+  const maxAttempts = 1 + Math.max(0, retry.retries);
+  const { call, signal, timeout, deadlineMs, settle = (result: ApiResponse<T>) => result } = options;
+  const startedAt = Date.now();
+  call?.emit("start");
+
+  // Deadline: an internal controller aborts the running attempt when the budget is spent
+  // (and follows the caller's signal). Without a deadline the caller's signal is used as is.
+  const deadlineAt = deadlineMs && deadlineMs > 0 ? startedAt + deadlineMs : undefined;
+  let attemptSignal = signal;
+  let expired = false;
+  let cleanup = (): void => undefined;
+  if (deadlineAt !== undefined) {
+    const controller = new AbortController();
+    const follow = () => controller.abort();
+    const timer = setTimeout(() => {
+      expired = true;
+      controller.abort();
+    }, deadlineMs);
+    if (signal?.aborted) controller.abort();
+    else signal?.addEventListener("abort", follow, { once: true });
+    attemptSignal = controller.signal;
+    cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", follow);
+    };
+  }
+  const pastDeadline = (): boolean => expired || (deadlineAt !== undefined && Date.now() >= deadlineAt);
+  const deadlineError = (): ApiErrorResponse => ({ status: false, data: { message: `Deadline of ${deadlineMs}ms exceeded`, code: "EDEADLINE" } });
+
+  // Final result: errors carry attempts/durationMs, the tracker gets success/failure/abort
+  const finish = (result: ApiResponse<T>, statusCode?: number, canceled = false): ApiResponse<T> => {
+    cleanup();
+    const durationMs = Date.now() - startedAt;
+    if (result.status) {
+      // A 304 carries no body: the cached payload was validated when stored
+      const reported = options.reportSchema && statusCode !== 304 ? applySchema(result, options.reportSchema) : result;
+      if (reported.status) call?.emit("success", { durationMs, statusCode });
+      else call?.emit("failure", { durationMs, statusCode, code: reported.data.code });
+      return result;
+    }
+    const data: ErrorData = { ...result.data, attempts: attempt, durationMs };
+    call?.emit(canceled ? "abort" : "failure", { durationMs, statusCode: data.statusCode ?? statusCode, code: data.code });
+    return { status: false, data };
+  };
+
+  while (attempt < maxAttempts) {
+    // Each attempt gets the remaining budget as timeout (capped by the per-call timeout)
+    const remaining = deadlineAt !== undefined ? deadlineAt - Date.now() : undefined;
+    if (remaining !== undefined && remaining <= 0) return finish(deadlineError());
+    const attemptTimeout = remaining !== undefined ? Math.min(timeout || remaining, remaining) : timeout;
+
+    attempt += 1;
+    if (call) call.attempt = attempt;
+    const attemptStartedAt = Date.now();
+    try {
+      const res = await fn({ signal: attemptSignal, timeout: attemptTimeout });
+      call?.emit("attempt", { durationMs: Date.now() - attemptStartedAt, statusCode: res.status });
+      const settled = settle(normalizeSuccess<T>(res));
+      return finish(settled.status ? applySchema(settled, options.schema) : settled, res.status);
+    } catch (err) {
+      const error = err as AxiosError;
+      call?.emit("attempt", { durationMs: Date.now() - attemptStartedAt, statusCode: error?.response?.status, code: error?.code });
+      // Budget spent (attempt aborted or timed out at the deadline): no retry
+      if (pastDeadline()) return finish(deadlineError(), error?.response?.status);
+
+      const willRetry = attempt < maxAttempts && isRetriable(error, attempt, retry);
+      const wait = willRetry ? computeBackoff(attempt, retry, error) : 0;
+
+      if (typeof retry.onAttempt === "function") {
+        try {
+          retry.onAttempt({
+            attempt,
+            method: error?.config?.method,
+            url: error?.config?.url,
+            statusCode: error?.response?.status,
+            code: error?.code,
+            error,
+            willRetry,
+            delayMs: wait,
+          });
+        } catch (hookError) {
+          console.warn("Error in onAttempt hook:", hookError);
+        }
+      }
+
+      if (!willRetry) {
+        // Final failure: normalize error and exit
+        return finish(settle(normalizeError(error)), error?.response?.status, isCancel(error));
+      }
+      // A backoff that would outlast the deadline fails now instead of sleeping
+      if (deadlineAt !== undefined && Date.now() + wait >= deadlineAt) return finish(deadlineError(), error?.response?.status);
+      // Wait before next retry
+      call?.emit("retry-scheduled", { delayMs: wait });
+      await delay(wait);
+    }
+  }
+  // Should never reach here, but just in case
+  cleanup();
+  return { status: false, data: { message: "Unexpected client error" } };
+};
+
+/** --------------------------------------------------------------------
+ * Response cache (GET methods)
+ * ------------------------------------------------------------------ */
+
+/** Cached GET response. Timestamps are epoch ms */
+export interface CacheEntry {
+  data: unknown;
+  storedAt: number;
+  expiresAt: number; // fresh until
+  staleUntil: number; // may be served (while revalidating in background) until
+  etag?: string;
+  lastModified?: string;
+}
+
+/** Pluggable cache store (memory LRU by default; implement for localStorage/IndexedDB) */
+export interface CacheStore {
+  get: (key: string) => CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set: (key: string, entry: CacheEntry) => void | Promise<void>;
+  delete: (key: string) => void | Promise<void>;
+  keys: () => string[] | Promise<string[]>;
+}
+
+interface CacheOptions {
+  store?: CacheStore; // default: in-memory LRU
+  ttlMs?: number; // fresh time (default 60000)
+  staleWhileRevalidateMs?: number; // extra time a stale entry is served while revalidating (default 0)
+  maxEntries?: number; // size of the default in-memory store (default 100)
+}
+
+interface CacheCallOptions {
+  ttlMs?: number;
+  staleWhileRevalidateMs?: number;
+}
+
+const DEFAULT_CACHE_TTL_MS = 60000;
+
+/************************************************************************************
+ * ##: In-memory LRU cache store
+ * Map keeps insertion order: reads re-insert the key, writes evict the oldest one.
+ * @param {number} maxEntries - Maximum number of entries (default: `100`)
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+export const createMemoryCacheStore = (maxEntries: number = 100): CacheStore => {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set: (key, entry) => {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > Math.max(1, maxEntries)) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    keys: () => Array.from(entries.keys()),
+  };
+};
+
+// Default store: owned by the `cache` object when given, else by the client options
+const resolveCacheStore = (clientOptions: ClientOptions): CacheStore => {
+  const cache = clientOptions.cache;
+  if (cache && typeof cache === "object" && cache.store) return cache.store;
+  const owner = cache && typeof cache === "object" ? cache : clientOptions;
+  return sharedFor(owner, "cache", () => createMemoryCacheStore(cache && typeof cache === "object" ? cache.maxEntries : undefined));
+};
+
+// JSON with sorted object keys, so equal params always give the same string (helper)
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "undefined";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value instanceof Date) return JSON.stringify(value);
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+    .join(",")}}`;
+};
+
+// Resolver functions have no stable text: each one gets an id (helper)
+const resolverId = (resolver: BaseUrlResolver): string => sharedFor(resolver, "id", generateId);
+
+// Cache scope: clients with another base URL or default headers (e.g. extend() for a region or tenant)
+// never read each other's entries, even when they share a store
+const cacheScope = ({ baseURL, defaultHeaders }: ClientOptions): string =>
+  stableStringify({ baseURL: typeof baseURL === "function" ? resolverId(baseURL) : baseURL, headers: defaultHeaders });
+
+// Cache key: scope, then url, so entries can be invalidated by URL prefix within the scope
+const cacheKey = (scope: string, url: string, params?: Record<string, unknown>): string =>
+  params && Object.keys(params).length ? `${scope} ${url}?${stableStringify(params)}` : `${scope} ${url}`;
+
+// Prefix match on path boundaries: "/users" matches "/users", "/users/1", "/users?{..}" but not "/users-admin"
+const matchesPrefix = (key: string, prefix: string): boolean => {
+  if (!key.startsWith(prefix)) return false;
+  if (key.length === prefix.length || prefix.endsWith("/")) return true;
+  const next = key.charAt(prefix.length);
+  return next === "/" || next === "?";
+};
+
+// Shared in-flight request (dedupe)
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+// GET result with the raw response (headers/status needed by the cache)
+type GetResult<T> = { result: ApiResponse<T>; response?: AxiosResponse<T> };
+
+// Normalized cancel result, same shape as an aborted axios call (helper)
+const canceledResponse = (): ApiErrorResponse => normalizeError(new AxiosError("canceled", AxiosError.ERR_CANCELED));
+
+/** --------------------------------------------------------------------
+ * Response validation (schema adapters)
+ * ------------------------------------------------------------------ */
+
+export type ValidationResult<T> = { success: true; data: T } | { success: false; issues: unknown[] };
+
+/** Minimal validator interface: use fromSafeParse / fromGuard or implement your own */
+export interface Validator<T> {
+  validate: (data: unknown) => ValidationResult<T>;
+}
+
+/************************************************************************************
+ * ##: Validator adapter for zod-like schemas (anything with `safeParse`)
+ * @param {Object} schema - Schema exposing safeParse(data) => { success, data?, error? }
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+export const fromSafeParse = <T>(schema: {
+  safeParse: (data: unknown) => { success: true; data: T } | { success: false; error?: unknown };
+}): Validator<T> => ({
+  validate: (data) => {
+    const parsed = schema.safeParse(data);
+    if (parsed.success) return { success: true, data: parsed.data };
+    const error = parsed.error as { issues?: unknown[] } | undefined;
+    return { success: false, issues: Array.isArray(error?.issues) ? error!.issues : [error] };
+  },
+});
+
+/************************************************************************************
+ * ##: Validator adapter for plain type-guard functions
+ * @param {Function} guard - Type guard (data: unknown) => data is T
+ * @param {string} message - Issue message when the guard rejects (optional)
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+export const fromGuard = <T>(guard: (data: unknown) => data is T, message: string = "Payload rejected by type guard"): Validator<T> => ({
+  validate: (data) => (guard(data) ? { success: true, data } : { success: false, issues: [{ message }] }),
+});
+
+// Validates every item of an array payload with an item validator (helper)
+const arrayOf = <T>(item: Validator<T>): Validator<T[]> => ({
+  validate: (data) => {
+    if (!Array.isArray(data)) return { success: false, issues: [{ message: "Expected an array" }] };
+    const parsed: T[] = [];
+    const issues: unknown[] = [];
+    data.forEach((value, index) => {
+      const result = item.validate(value);
+      if (result.success) parsed.push(result.data);
+      else issues.push(...result.issues.map((issue) => ({ index, issue })));
+    });
+    return issues.length ? { success: false, issues } : { success: true, data: parsed };
+  },
+});
+
+/************************************************************************************
+ * ##: Apply an optional validator to a normalized response
+ * Success + valid payload -> data replaced by the parsed value
+ * Success + invalid payload -> { status:false, data:{ code:"EVALIDATION", issues } }
+ * @param {Object} result - Normalized response
+ * @param {Object} schema - Optional validator
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const applySchema = <T>(result: ApiResponse<T>, schema?: Validator<T>): ApiResponse<T> => {
+  if (!schema || !result.status) return result;
+  try {
+    const validation = schema.validate(result.data);
+    if (validation.success) return { status: true, data: validation.data };
+    return { status: false, data: { message: "Response validation failed", code: "EVALIDATION", issues: validation.issues } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { status: false, data: { message: "Response validation failed", code: "EVALIDATION", issues: [{ message }] } };
+  }
+};
+
+/** --------------------------------------------------------------------
+ * Chunked uploads (resumable, Content-Range)
+ * ------------------------------------------------------------------ */
+
+/** Persisted state of a chunked upload: enough to resume it in a later upload() call */
+export interface UploadSession {
+  uploadUrl: string; // from the session response (Location header or `uploadUrl`)
+  size: number;
+  chunkSize: number;
+  uploaded: number[]; // indexes of the stored chunks
+  createdAt: number;
+}
+
+/** Pluggable session store (memory by default; implement for localStorage/IndexedDB) */
+export interface UploadSessionStore {
+  get: (key: string) => UploadSession | undefined | Promise<UploadSession | undefined>;
+  set: (key: string, session: UploadSession) => void | Promise<void>;
+  delete: (key: string) => void | Promise<void>;
+}
+
+/** Aggregated progress of a chunked upload */
+export interface UploadProgress {
+  loaded: number; // bytes
+  total: number;
+  percent: number; // 0-100
+  chunks: number; // stored chunks
+  totalChunks: number;
+}
+
+interface ChunkedUploadOptions {
+  chunkSize?: number; // bytes per chunk (default 5 MiB)
+  concurrency?: number; // chunks sent at the same time (default 3)
+  store?: UploadSessionStore; // where sessions are kept for resume (default: in-memory)
+  sessionKey?: string; // default: url + file name, size, type, lastModified and a hash of the first and last chunk
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const DEFAULT_CHUNK_CONCURRENCY = 3;
+
+// Default session store (in-memory)
+const resolveUploadSessionStore = (clientOptions: ClientOptions): UploadSessionStore =>
+  sharedFor(clientOptions, "uploads", () => {
+    const sessions = new Map<string, UploadSession>();
+    const store: UploadSessionStore = {
+      get: (key) => sessions.get(key),
+      set: (key, session) => {
+        sessions.set(key, session);
+      },
+      delete: (key) => {
+        sessions.delete(key);
+      },
+    };
+    return store;
+  });
+
+// Identifies "the same file to the same URL" across calls (helper). Plain Blobs have no name or
+// lastModified, so a hash of the first and last chunk tells apart different contents of the same size
+const uploadSessionKey = async (url: string, file: Blob, chunkSize: number): Promise<string> => {
+  const { name = "", lastModified = 0 } = file as Partial<File>;
+  const head = new Uint8Array(await file.slice(0, chunkSize).arrayBuffer());
+  const lastStart = Math.max(0, Math.ceil(file.size / chunkSize) - 1) * chunkSize;
+  const tail = lastStart > 0 ? new Uint8Array(await file.slice(lastStart).arrayBuffer()) : new Uint8Array(0);
+  const sample = new Uint8Array(head.length + tail.length);
+  sample.set(head);
+  sample.set(tail, head.length);
+  return `${url}|${name}|${file.size}|${file.type}|${lastModified}|${await sha256Hex(sample)}`;
+};
+
+/** --------------------------------------------------------------------
+ * Downloads (Blob, stream or file)
+ * ------------------------------------------------------------------ */
+
+// Node stream as seen by callers (kept structural so browser builds need no Node types)
+type NodeReadableLike = AsyncIterable<Uint8Array> & {
+  pipe: <W>(destination: W, options?: { end?: boolean }) => W;
+  destroy: (error?: Error) => void;
+};
+
+interface DownloadMeta {
+  filename?: string; // from Content-Disposition (filename* preferred)
+  contentType?: string;
+  contentLength?: number; // bytes, when the server sends it
+}
+
+/** download() results: buffered (default), `stream: true`, or `saveTo` (Node) */
+export type BlobDownload = DownloadMeta & { blob: Blob };
+export type StreamDownload = DownloadMeta & { stream: ReadableStream<Uint8Array> | NodeReadableLike };
+export type FileDownload = DownloadMeta & { path: string; bytes: number };
+
+interface DownloadOptions extends Omit<BaseRequestOptions, "schema"> {
+  onDownloadProgress?: (progressEvent: AxiosProgressEvent) => void;
+  stream?: boolean; // ReadableStream in browsers (fetch adapter), Node Readable in Node
+  saveTo?: string; // Node: write the body to this file path
+}
+
+/** download() overloads: the result type follows `stream` / `saveTo` */
+type Download = {
+  (url: string, opts: DownloadOptions & { stream: true }): Promise<ApiResponse<StreamDownload>>;
+  (url: string, opts: DownloadOptions & { saveTo: string }): Promise<ApiResponse<FileDownload>>;
+  (url: string, opts?: DownloadOptions): Promise<ApiResponse<BlobDownload>>;
+};
+
+const MAX_ERROR_BODY_BYTES = 64 * 1024;
+
+const isNode = (): boolean => typeof process !== "undefined" && Boolean(process.versions?.node);
+
+/************************************************************************************
+ * ##: Filename from a Content-Disposition header (RFC 6266)
+ * filename* (RFC 5987: charset'lang'percent-encoded, UTF-8 or ISO-8859-1) wins over
+ * filename (quoted or token). Path parts are dropped.
+ * @param {string} header - Content-Disposition value
+ * History:
+ * 19-10-2026: Created (replaces the filename regex of download())
+ ************************************************************************************/
+const parseContentDisposition = (header: unknown): string | undefined => {
+  if (!header) return undefined;
+  const value = String(header);
+  let filename: string | undefined;
+
+  const extended = /(?:^|;)\s*filename\*\s*=\s*([^;]+)/i.exec(value);
+  const parts = extended ? /^([\w!#$%&+^`{}~-]+)'[^']*'(.*)$/.exec(extended[1].trim().replace(/^"(.*)"$/, "$1")) : null;
+  if (parts) {
+    const [, charset, encoded] = parts;
+    try {
+      filename = /^utf-8$/i.test(charset)
+        ? decodeURIComponent(encoded)
+        : encoded.replace(/%([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))); // ISO-8859-1
+    } catch {
+      filename = undefined; // malformed encoding: fall back to filename
+    }
+  }
+
+  if (!filename) {
+    const plain = /(?:^|;)\s*filename\s*=\s*(?:"((?:\\.|[^"\\])*)"|([^;]*))/i.exec(value);
+    if (plain) filename = plain[1] !== undefined ? plain[1].replace(/\\(.)/g, "$1") : plain[2].trim();
+  }
+
+  return filename ? filename.replace(/^.*[\\/]/, "") || undefined : undefined;
+};
+
+// Stream/Blob error bodies are read (up to 64 KiB) so normalizeError sees the server payload (helper)
+const readErrorBody = async (error: AxiosError): Promise<void> => {
+  const response = error?.response;
+  const body = response?.data as unknown;
+  if (!response || !body) return;
+
+  try {
+    let text: string | undefined;
+    if (typeof body === "string") {
+      text = body;
+    } else if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+      const bytes = body instanceof ArrayBuffer ? new Uint8Array(body) : new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+      text = new TextDecoder().decode(bytes.subarray(0, MAX_ERROR_BODY_BYTES));
+    } else if (typeof body !== "object") {
+      return;
+    } else if (typeof Blob !== "undefined" && body instanceof Blob) {
+      text = await body.slice(0, MAX_ERROR_BODY_BYTES).text();
+    } else if (typeof (body as ReadableStream<Uint8Array>).getReader === "function" || Symbol.asyncIterator in body) {
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      const push = (chunk: Uint8Array | string): boolean => {
+        const bytes = typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk;
+        chunks.push(bytes);
+        size += bytes.length;
+        return size < MAX_ERROR_BODY_BYTES;
+      };
+      if (typeof (body as ReadableStream<Uint8Array>).getReader === "function") {
+        const reader = (body as ReadableStream<Uint8Array>).getReader();
+        for (let next = await reader.read(); !next.done; next = await reader.read()) {
+          if (!push(next.value)) break;
+        }
+        reader.cancel().catch(() => undefined);
+      } else {
+        for await (const chunk of body as AsyncIterable<Uint8Array | string>) {
+          if (!push(chunk)) break;
+        }
+      }
+      const all = new Uint8Array(size);
+      chunks.reduce((offset, chunk) => (all.set(chunk, offset), offset + chunk.length), 0);
+      text = new TextDecoder().decode(all);
+    }
+    if (text === undefined) return;
+    try {
+      response.data = JSON.parse(text);
+    } catch {
+      response.data = text;
+    }
+  } catch {
+    response.data = undefined; // unreadable body: the axios message is used
+  }
+};
+
+// Node only: pipe a response body into a file, resolves the written size (helper)
+const saveToFile = async (body: unknown, path: string): Promise<number> => {
+  const [{ createWriteStream }, { stat }, { pipeline }, { Readable }] = await Promise.all([
+    import("node:fs"),
+    import("node:fs/promises"),
+    import("node:stream/promises"),
+    import("node:stream"),
+  ]);
+  const source = typeof (body as NodeReadableLike)?.pipe === "function" ? (body as NodeJS.ReadableStream) : Readable.from(body as Iterable<unknown>);
+  await pipeline(source, createWriteStream(path));
+  return (await stat(path)).size;
+};
+
+/** --------------------------------------------------------------------
+ * Offline mutation queue (persisted, replayed in order)
+ * ------------------------------------------------------------------ */
+
+/** A mutation waiting for replay. Stored as is: body/params must be serializable for persistent storages */
+export interface QueuedMutation {
+  id: string;
+  method: string; // lower case
+  url: string;
+  params?: Record<string, unknown>;
+  data?: unknown;
+  headers: Record<string, string>; // incl. the Idempotency-Key, so replays stay safe
+  queuedAt: number;
+  attempts: number; // replays tried so far
+  lastError?: ErrorData;
+}
+
+/** Pluggable storage: the whole queue is loaded once and saved after every change */
+export interface OfflineStorage {
+  load: () => QueuedMutation[] | undefined | null | Promise<QueuedMutation[] | undefined | null>;
+  save: (mutations: QueuedMutation[]) => void | Promise<void>;
+}
+
+export interface OfflineQueueState {
+  pending: QueuedMutation[];
+  flushing: boolean;
+  lastFlushAt?: number;
+}
+
+export interface FlushResult {
+  replayed: number;
+  conflicts: number;
+  failed: number;
+  remaining: number; // still queued (e.g. still offline)
+}
+
+interface OfflineQueueOptions {
+  storage?: OfflineStorage; // default: in-memory
+  autoFlush?: boolean; // flush on the browser "online" event and after loading stored mutations (default true)
+  shouldQueue?: (error: ErrorData, mutation: { method: string; url: string }) => boolean; // default: transport failures (ERR_NETWORK, ECONNREFUSED, ENOTFOUND, EAI_AGAIN)
+  isConflict?: (result: ApiErrorResponse) => boolean; // default: 409 / 412
+  onReplay?: (mutation: QueuedMutation, result: ApiSuccessResponse<unknown>) => void;
+  onConflict?: (mutation: QueuedMutation, result: ApiErrorResponse) => void; // dropped from the queue
+  onFailure?: (mutation: QueuedMutation, result: ApiErrorResponse) => void; // dropped from the queue
+}
+
+interface OfflineQueue {
+  size: () => Promise<number>;
+  enqueue: (mutation: Omit<QueuedMutation, "id" | "queuedAt" | "attempts">) => Promise<QueuedMutation>;
+  flush: () => Promise<FlushResult>;
+  discard: (id?: string) => Promise<void>;
+  state: () => OfflineQueueState;
+}
+
+type Replay = (mutation: QueuedMutation) => Promise<ApiResponse<unknown>>;
+
+/************************************************************************************
+ * ##: Offline queue
+ * Mutations are replayed one by one, in order. Per mutation:
+ * - success: removed (onReplay)
+ * - conflict (409/412 by default): removed (onConflict)
+ * - other HTTP error: removed (onFailure)
+ * - still no response (network error): kept, the flush stops there
+ * - shouldQueue or isConflict throws: removed (onFailure)
+ * One flush runs at a time; flush() during a flush joins it.
+ * @param {Object} options - Offline queue options
+ * @param {Function} replay - Sends one mutation (normalized result)
+ * History:
+ * 19-10-2026: Created
+ * 19-10-2026: Throwing shouldQueue/isConflict no longer stops the flush
+ ************************************************************************************/
+const createOfflineQueue = (options: OfflineQueueOptions, replay: Replay): OfflineQueue => {
+  const { storage, autoFlush = true } = options;
+  const isConflict = options.isConflict ?? ((result: ApiErrorResponse) => result.data.statusCode === 409 || result.data.statusCode === 412);
+  const shouldQueue = options.shouldQueue ?? defaultShouldQueue;
+  let pending: QueuedMutation[] = [];
+  let flushing: Promise<FlushResult> | null = null;
+  let lastFlushAt: number | undefined;
+
+  // Storage calls never break a call: on errors the queue keeps working in memory
+  const persist = async (): Promise<void> => {
+    if (storage) await safely("offline storage", () => storage.save(pending.slice()));
+  };
+
+  const ready: Promise<void> = (async () => {
+    if (!storage) return;
+    const stored = await safely("offline storage", () => storage.load());
+    if (Array.isArray(stored)) pending = [...stored, ...pending];
+  })();
+
+  const flush = (): Promise<FlushResult> => {
+    if (!flushing) {
+      const clear = () => {
+        flushing = null;
+      };
+      flushing = (async () => {
+        await ready;
+        const result: FlushResult = { replayed: 0, conflicts: 0, failed: 0, remaining: 0 };
+        while (pending.length) {
+          const mutation = pending[0];
+          mutation.attempts += 1;
+          const outcome = await replay(mutation);
+
+          // User predicates are guarded: undefined means it threw, and the mutation counts as failed
+          const keep = outcome.status ? false : await safely("offline queue hook", () => Boolean(shouldQueue(outcome.data, mutation)));
+          if (keep && !outcome.status) {
+            mutation.lastError = outcome.data;
+            await persist();
+            break; // still offline: keep it (and everything after it)
+          }
+          const conflict = outcome.status || keep === undefined ? false : await safely("offline queue hook", () => Boolean(isConflict(outcome)));
+
+          pending = pending.filter((item) => item !== mutation);
+          await persist();
+          if (outcome.status) {
+            result.replayed += 1;
+            safely("offline queue hook", () => options.onReplay?.(mutation, outcome));
+          } else if (conflict) {
+            result.conflicts += 1;
+            safely("offline queue hook", () => options.onConflict?.(mutation, outcome));
+          } else {
+            result.failed += 1;
+            safely("offline queue hook", () => options.onFailure?.(mutation, outcome));
+          }
+        }
+        lastFlushAt = Date.now();
+        result.remaining = pending.length;
+        return result;
+      })();
+      flushing.then(clear, clear);
+    }
+    return flushing;
+  };
+
+  if (autoFlush) {
+    ready.then(() => {
+      if (pending.length && (typeof navigator === "undefined" || navigator.onLine !== false)) flush();
+    });
+    if (typeof window !== "undefined" && typeof window.addEventListener === "function") {
+      window.addEventListener("online", () => {
+        flush();
+      });
+    }
+  }
+
+  return {
+    size: async () => {
+      await ready;
+      return pending.length;
+    },
+    enqueue: async (mutation) => {
+      await ready;
+      const queued: QueuedMutation = { ...mutation, id: generateId(), queuedAt: Date.now(), attempts: 0 };
+      pending.push(queued);
+      await persist();
+      return queued;
+    },
+    flush,
+    discard: async (id) => {
+      await ready;
+      pending = id === undefined ? [] : pending.filter((item) => item.id !== id);
+      await persist();
+    },
+    state: () => ({ pending: pending.slice(), flushing: Boolean(flushing), lastFlushAt }),
+  };
+};
+
+// Transport failures: the request never reached the server. Client-side results (EVALIDATION, ECIRCUITOPEN,
+// EDEADLINE...) and timeouts are not queued, the server may already have handled the call
+const OFFLINE_CODES = ["ERR_NETWORK", "ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+// No response at all (network down, DNS, refused) (helper)
+const defaultShouldQueue = (error: ErrorData): boolean => error.statusCode === undefined && OFFLINE_CODES.includes(String(error.code));
+
+// Owned by the `offline` object when given, else by the client options
+const resolveOfflineQueue = (clientOptions: ClientOptions, replay: Replay): OfflineQueue => {
+  const offline = clientOptions.offline;
+  const owner = offline && typeof offline === "object" ? offline : clientOptions;
+  return sharedFor(owner, "offline", () => createOfflineQueue(offline && typeof offline === "object" ? offline : {}, replay));
+};
+
+/** --------------------------------------------------------------------
+ * Batch requests and bulk operations
+ * ------------------------------------------------------------------ */
+
+/** One call collected by batch() */
+export interface BatchRequest {
+  method: string;
+  url: string; // relative to baseURL, like any other call
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+interface BatchOptions {
+  endpoint: string; // batch URL (POST)
+  format?: "json" | "multipart"; // JSON envelope (default) or multipart/mixed with application/http parts
+  maxSize?: number; // calls per batch request (default 50)
+  windowMs?: number; // collect window (default 0 = calls of the same tick)
+}
+
+/** Per-item results in input order, plus counts */
+export interface BulkResult<T> {
+  results: ApiResponse<T>[];
+  summary: { total: number; succeeded: number; failed: number };
+}
+
+interface BulkOptions {
+  endpoint?: string; // native batch endpoint: POST { operation, items } -> one result per item
+  chunkSize?: number; // items per native request (default 100)
+  concurrency?: number; // parallel requests (default 5)
+}
+
+// Sub-response of a batch (JSON entry or multipart part)
+interface BatchPartResponse {
+  id?: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_BULK_CHUNK_SIZE = 100;
+const DEFAULT_BULK_CONCURRENCY = 5;
+
+// Runs tasks with at most `concurrency` at a time; results keep the input order (helper)
+const mapLimit = async <I, O>(items: I[], concurrency: number, task: (item: I, index: number) => Promise<O>): Promise<O[]> => {
+  const results = new Array<O>(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+};
+
+const summarize = <T>(results: ApiResponse<T>[]): BulkResult<T> => {
+  const succeeded = results.filter((result) => result.status).length;
+  return { results, summary: { total: results.length, succeeded, failed: results.length - succeeded } };
+};
+
+const missingPart = (): ApiErrorResponse => ({ status: false, data: { message: "No response for this item in the batch", code: "EBATCH" } });
+
+// Sub-response -> ApiResponse, through the same normalizers as a real response (helper)
+const normalizePart = <T>(part: BatchPartResponse): ApiResponse<T> => {
+  const response = { data: part.body, status: part.status, statusText: String(part.status), headers: part.headers ?? {}, config: {} } as AxiosResponse<T>;
+  if (part.status >= 200 && part.status < 300) return normalizeSuccess<T>(response);
+  const code = part.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+  return normalizeError(new AxiosError(`Request failed with status code ${part.status}`, code, undefined, undefined, response as AxiosResponse));
+};
+
+// Native bulk item: {status:boolean,data} envelope, {status:number,body} entry, or the raw item (helper)
+const normalizeBulkItem = <T>(item: unknown): ApiResponse<T> => {
+  if (item && typeof item === "object" && "status" in item) {
+    const { status } = item as { status: unknown };
+    if (typeof status === "boolean" && "data" in item) return item as ApiResponse<T>;
+    if (typeof status === "number") return normalizePart<T>(item as BatchPartResponse);
+  }
+  return { status: true, data: item as T };
+};
+
+// List of per-item entries in a batch/bulk body: the array itself, or responses/results/items (helper)
+const batchEntries = (body: unknown): unknown[] | undefined => {
+  if (Array.isArray(body)) return body;
+  const envelope = body as { responses?: unknown; results?: unknown; items?: unknown } | undefined;
+  const list = envelope?.responses ?? envelope?.results ?? envelope?.items;
+  return Array.isArray(list) ? list : undefined;
+};
+
+const tryJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text || undefined;
+  }
+};
+
+// "/orders" + { a: 1, b: [2, 3] } -> "/orders?a=1&b=2&b=3" (helper)
+const withQuery = (url: string, params?: Record<string, unknown>, serialize: Transforms["serialize"] = serializeParams): string => {
+  const query = params ? serialize(params) : "";
+  return query ? `${url}${url.includes("?") ? "&" : "?"}${query}` : url;
+};
+
+/************************************************************************************
+ * ##: multipart/mixed batch body (one application/http part per call)
+ * @param {Array} requests - Calls with their Content-ID
+ * @param {string} boundary - Multipart boundary
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const buildMultipartBatch = (requests: (BatchRequest & { id: string })[], boundary: string, serialize?: Transforms["serialize"]): string => {
+  const parts = requests.map((request) => {
+    const lines = [`--${boundary}`, "Content-Type: application/http", "Content-Transfer-Encoding: binary", `Content-ID: <${request.id}>`, ""];
+    lines.push(`${request.method.toUpperCase()} ${withQuery(request.url, request.params, serialize)} HTTP/1.1`);
+    const headers = { ...request.headers };
+    const body = request.body === undefined ? "" : typeof request.body === "string" ? request.body : JSON.stringify(request.body);
+    if (body && !Object.keys(headers).some((name) => name.toLowerCase() === "content-type")) headers["Content-Type"] = "application/json";
+    Object.keys(headers).forEach((name) => lines.push(`${name}: ${headers[name]}`));
+    lines.push("", body);
+    return lines.join("\r\n");
+  });
+  return `${parts.join("\r\n")}\r\n--${boundary}--\r\n`;
+};
+
+/************************************************************************************
+ * ##: Parse a multipart/mixed batch response
+ * Each part holds an HTTP response (status line, headers, body). Content-ID
+ * "<response-id>" or "<id>" maps it back to its call.
+ * @param {string} text - Response body
+ * @param {string} contentType - Response Content-Type (with boundary)
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const parseMultipartBatch = (text: string, contentType: string): BatchPartResponse[] => {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) return [];
+
+  return text
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter((part) => !part.startsWith("--"))
+    .map((part) => {
+      const [outer = "", ...rest] = part.replace(/^\r?\n/, "").split(/\r?\n\r?\n/);
+      const [head = "", ...body] = rest;
+      const [statusLine = "", ...headerLines] = head.split(/\r?\n/);
+      const headers: Record<string, string> = {};
+      headerLines.forEach((line) => {
+        const index = line.indexOf(":");
+        if (index > 0) headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+      });
+      const id = /content-id:\s*<?([^>\r\n]+)>?/i.exec(outer)?.[1]?.replace(/^response-/, "");
+      const status = Number(/^HTTP\/[\d.]+\s+(\d{3})/.exec(statusLine)?.[1] ?? 0);
+      return { id, status, headers, body: tryJson(body.join("\r\n\r\n").trim()) };
+    });
+};
+
+/** --------------------------------------------------------------------
+ * Real-time: Server-Sent Events (fetch stream) and long-polling
+ * ------------------------------------------------------------------ */
+
+export type SubscriptionTransport = "sse" | "poll";
+
+/** One pushed event: an SSE message or one item of a long-poll response */
+export interface ServerEvent<T = unknown> {
+  id?: string;
+  event: string; // "message" when the server sends no type
+  data: T; // JSON-parsed when possible, text otherwise
+  transport: SubscriptionTransport;
+}
+
+interface SubscribeOptions<T = unknown> extends Pick<BaseRequestOptions, "params" | "headers" | "signal"> {
+  onEvent: (event: ServerEvent<T>) => void;
+  /** Every failed connection or poll; the subscription keeps reconnecting unless the error is final */
+  onError?: (error: ApiErrorResponse) => void;
+  onOpen?: (transport: SubscriptionTransport) => void; // connection open (SSE) or first poll answered
+  transport?: "auto" | SubscriptionTransport; // default "auto": SSE, long-polling when there is no event stream
+  lastEventId?: string; // resume point of the first connection (sent as Last-Event-ID)
+  /** Reconnect backoff. `retries` = consecutive failures before giving up (default: never) */
+  reconnect?: Partial<Pick<RetryOptions, "retries" | "baseDelayMs" | "maxDelayMs" | "jitter" | "retryOn">>;
+  pollUrl?: string; // long-polling endpoint (default: url)
+  pollTimeoutMs?: number; // timeout of each poll request (default 60000)
+  pollIntervalMs?: number; // wait between answered polls (default 0: the server holds the request)
+}
+
+/** Handle returned by subscribe() */
+export interface Subscription {
+  close: () => void;
+  readonly closed: boolean;
+  readonly transport: SubscriptionTransport;
+  readonly lastEventId?: string;
+}
+
+const DEFAULT_POLL_TIMEOUT_MS = 60000;
+
+// Waits ms, or less when the signal aborts (helper)
+const pause = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const done = (): void => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+
+/************************************************************************************
+ * ##: text/event-stream parser (WHATWG rules)
+ * Fed with decoded text in any chunking; calls onMessage once per blank-line terminated
+ * message with data. `id` persists across messages, `retry` reports a reconnect delay.
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const createEventParser = (
+  onMessage: (message: { id?: string; event: string; data: string }) => void,
+  onRetry: (ms: number) => void
+): ((text: string) => void) => {
+  let buffer = "";
+  let data: string[] = [];
+  let event = "";
+  let id: string | undefined;
+
+  const line = (text: string): void => {
+    if (text === "") {
+      if (data.length) onMessage({ id, event: event || "message", data: data.join("\n") });
+      data = [];
+      event = "";
+      return;
+    }
+    if (text.startsWith(":")) return; // comment / keep-alive
+    const index = text.indexOf(":");
+    const field = index === -1 ? text : text.slice(0, index);
+    const value = index === -1 ? "" : text.slice(index + 1).replace(/^ /, "");
+    if (field === "data") data.push(value);
+    else if (field === "event") event = value;
+    else if (field === "id" && !value.includes("\0")) id = value;
+    else if (field === "retry" && /^\d+$/.test(value)) onRetry(Number(value));
+  };
+
+  // A chunk ending in "\r" may be the first half of "\r\n": the next "\n" is not a new line
+  let skipNewline = false;
+
+  return (text) => {
+    if (!text) return;
+    if (skipNewline && text.startsWith("\n")) text = text.slice(1);
+    skipNewline = text.endsWith("\r");
+    buffer += text;
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() ?? "";
+    lines.forEach(line);
+  };
+};
+
+// Streams a response body as text: web ReadableStream, async iterable (Node) or string (custom adapters) (helper)
+const readText = async (body: unknown, onText: (text: string) => void): Promise<void> => {
+  if (typeof body === "string") {
+    onText(body);
+    return;
+  }
+  const decoder = new TextDecoder();
+  if (body && typeof (body as ReadableStream<Uint8Array>).getReader === "function") {
+    const reader = (body as ReadableStream<Uint8Array>).getReader();
+    for (let next = await reader.read(); !next.done; next = await reader.read()) onText(decoder.decode(next.value, { stream: true }));
+  } else if (body && typeof body === "object" && Symbol.asyncIterator in body) {
+    for await (const chunk of body as AsyncIterable<Uint8Array | string>) onText(typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true }));
+  }
+  onText(decoder.decode());
+};
+
+// Long-poll body -> events: an array, { events: [...] }, or one event; items without `data` are the data (helper)
+const pollEvents = (body: unknown): { id?: string; event: string; data: unknown }[] => {
+  if (body === undefined || body === null || body === "") return [];
+  const list = Array.isArray(body) ? body : Array.isArray((body as { events?: unknown }).events) ? (body as { events: unknown[] }).events : [body];
+  return list.map((item) => {
+    if (item && typeof item === "object" && "data" in item) {
+      const { id, event, data } = item as { id?: unknown; event?: unknown; data: unknown };
+      return { id: id === undefined || id === null ? undefined : String(id), event: typeof event === "string" && event ? event : "message", data };
+    }
+    return { event: "message", data: item };
+  });
+};
+
+/** --------------------------------------------------------------------
+ * GraphQL and JSON-RPC operations
+ * ------------------------------------------------------------------ */
+
+/** GraphQL error as sent by the server (kept as is in `data.errors`) */
+export interface GraphQLError {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+  extensions?: Record<string, unknown>;
+}
+
+/** JSON-RPC 2.0 error object */
+export interface RpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/** One call of a JSON-RPC batch */
+export interface RpcCall {
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+}
+
+interface GraphQLOptions {
+  endpoint?: string; // default "/graphql"
+  persistedQueries?: boolean; // send the sha256 hash first, the full query only when the server asks for it
+}
+
+interface RpcOptions {
+  endpoint?: string; // default "/rpc"
+}
+
+interface GraphQLRequestOptions<T = unknown> extends BaseRequestOptions<T> {
+  operationName?: string;
+  endpoint?: string; // overrides graphql.endpoint
+  persisted?: boolean | string; // override graphql.persistedQueries, or a precomputed sha256 hash
+}
+
+interface RpcRequestOptions<T = unknown> extends BaseRequestOptions<T> {
+  endpoint?: string; // overrides rpc.endpoint
+}
+
+/** rpc() overloads: one call, or a batch array (one result per call, in order) */
+type Rpc = {
+  <T = unknown>(method: string, params?: RpcCall["params"], opts?: RpcRequestOptions<T>): Promise<ApiResponse<T>>;
+  (calls: RpcCall[], opts?: RpcRequestOptions): Promise<ApiResponse<unknown>[]>;
+};
+
+const DEFAULT_GRAPHQL_ENDPOINT = "/graphql";
+const DEFAULT_RPC_ENDPOINT = "/rpc";
+
+// Hex SHA-256 of a text: Web Crypto when available, node:crypto otherwise (helper)
+const sha256Hex = async (text: string | Uint8Array<ArrayBuffer>): Promise<string> => {
+  const bytes = typeof text === "string" ? utf8(text) : text;
+  const subtle = typeof globalThis.crypto === "object" ? globalThis.crypto.subtle : undefined;
+  if (subtle) return toHex(new Uint8Array(await subtle.digest("SHA-256", bytes)));
+  const { createHash } = await import("node:crypto");
+  return createHash("sha256").update(bytes).digest("hex");
+};
+
+// Queries (not mutations/subscriptions) are reads: retried like GET (helper)
+const isGraphQLQuery = (query: string): boolean => /^\s*(#[^\n]*\n\s*)*(query\b|\{)/.test(query);
+
+const graphqlErrors = (body: unknown): GraphQLError[] | undefined => {
+  const errors = (body as { errors?: unknown } | undefined)?.errors;
+  return Array.isArray(errors) && errors.length ? (errors as GraphQLError[]) : undefined;
+};
+
+const isPersistedQueryNotFound = (result: ApiResponse<unknown>): boolean =>
+  Boolean(
+    graphqlErrors(result.data)?.some((error) => error?.message === "PersistedQueryNotFound" || error?.extensions?.code === "PERSISTED_QUERY_NOT_FOUND")
+  );
+
+/************************************************************************************
+ * ##: GraphQL response -> ApiResponse
+ * { data } -> success with `data`. Any `errors` (also on HTTP 200) -> EGRAPHQL failure with
+ * the first message, `errors` (paths, locations, extensions) and `partialData` when present.
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const toGraphQLResult = <T>(result: ApiResponse<unknown>): ApiResponse<T> => {
+  const errors = graphqlErrors(result.data);
+  if (!result.status) {
+    return errors ? { status: false, data: { ...result.data, message: errors[0]?.message || result.data.message } } : result;
+  }
+  const body = result.data as { data?: T } | undefined;
+  if (!errors) return { status: true, data: body?.data as T };
+  const partialData = body?.data ?? undefined;
+  return { status: false, data: { message: errors[0]?.message || "GraphQL error", code: "EGRAPHQL", errors, ...(partialData !== undefined ? { partialData } : {}) } };
+};
+
+const isRpcError = (error: unknown): error is RpcError =>
+  Boolean(error) && typeof error === "object" && typeof (error as RpcError).code === "number";
+
+const rpcErrorData = (error: RpcError): ErrorData => ({
+  message: error.message || "JSON-RPC error",
+  code: "ERPC",
+  rpcCode: error.code,
+  ...(error.data !== undefined ? { rpcData: error.data } : {}),
+});
+
+/************************************************************************************
+ * ##: JSON-RPC response -> ApiResponse
+ * { result } -> success with `result`; { error: { code, message, data } } (also on HTTP 200)
+ * -> ERPC failure keeping `rpcCode` and `rpcData`.
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const toRpcResult = <T>(result: ApiResponse<unknown>): ApiResponse<T> => {
+  if (!result.status) {
+    const error = result.data.error;
+    return isRpcError(error) ? { status: false, data: { ...result.data, ...rpcErrorData(error) } } : result;
+  }
+  const body = result.data as { result?: T; error?: unknown } | undefined;
+  if (isRpcError(body?.error)) return { status: false, data: rpcErrorData(body.error) };
+  return { status: true, data: body?.result as T };
+};
+
+/** --------------------------------------------------------------------
+ * Middleware
+ * ------------------------------------------------------------------ */
+
+/** Call context seen by middleware. Changes made before next() are used for the request */
+export interface RequestContext {
+  requestId: string; // unique per call (also on lifecycle events)
+  method: string; // lower case
+  url: string;
+  params?: Record<string, unknown>;
+  headers: Record<string, string>;
+  data?: unknown; // request body
+  options: BaseRequestOptions<unknown>; // per-call options (signal, timeout, retry, schema, ...)
+  meta: Record<string, unknown>; // free bag shared by the middleware of this call
+}
+
+/** Middleware: call next() to continue; return a response without calling it to short-circuit */
+export type Middleware = (ctx: RequestContext, next: () => Promise<ApiResponse<unknown>>) => Promise<ApiResponse<unknown>> | ApiResponse<unknown>;
+
+type Dispatch = <T>(ctx: RequestContext, terminal: (ctx: RequestContext) => Promise<ApiResponse<T>>) => Promise<ApiResponse<T>>;
+
+// Dispatcher of each withAuth client, so resource() helpers can run their own requests through the chain
+const clientDispatchers = new WeakMap<object, Dispatch>();
+
+/** /************************************************************************************
+ *  Public Factory
+ * /*************************************************************************************/
+
+// Input validation helpers
+const validateUrl = (url: string): void => {
+  if (!url || typeof url !== "string" || url.trim() === "") {
+    throw new Error("URL must be a non-empty string");
+  }
+};
+
+/************************************************************************************
+ * ##: Generates a random id (UUID v4): idempotency keys, request and trace ids
+ * Uses Web Crypto when available, falls back to Math.random
+ * History:
+ * 19-10-2026: Created
+ * 19-10-2026: Renamed from generateIdempotencyKey (also used for request ids)
+ ************************************************************************************/
+const generateId = (): string => {
+  if (typeof globalThis.crypto?.randomUUID === "function") return globalThis.crypto.randomUUID();
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+/************************************************************************************
+ * ##: Request options interfaces
+ * History:
+ * 16-08-2025: Created
+ * 21-08-2025: Split into specific interfaces for better type safety
+ ************************************************************************************/
+interface BaseRequestOptions<T = unknown> {
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  timeout?: number; // per attempt
+  deadlineMs?: number; // whole call, retries and backoff included (0 = none, overrides client `deadlineMs`)
+  responseType?: AxiosRequestConfig["responseType"];
+  retry?: Partial<RetryOptions>;
+  idempotencyKey?: string | false; // mutating calls: explicit key, or false to skip the auto-generated one
+  cache?: false | CacheCallOptions; // GET calls: false bypasses the cache, object overrides ttl/swr
+  dedupe?: boolean; // GET calls: override client `dedupe`
+  schema?: Validator<T>; // validate the success payload (data becomes the parsed value)
+  priority?: number; // request queue priority when `limits` is set (higher first, default 0)
+}
+
+interface UploadRequestOptions<T = unknown> extends BaseRequestOptions<T> {
+  onUploadProgress?: (progressEvent: AxiosProgressEvent) => void;
+  fieldName?: string;
+  chunked?: boolean | ChunkedUploadOptions; // Blob/File only: resumable upload in chunks (see chunkedUpload)
+}
+
+// Options of extend(): any client option, plus headers merged over `defaultHeaders`
+type ClientExtension = ClientOptions & { headers?: Record<string, string> };
+
+// For backward compatibility
+interface RequestOptions extends BaseRequestOptions {
+  onUploadProgress?: (progressEvent: AxiosProgressEvent) => void;
+  fieldName?: string;
+}
+
+/** Client returned by withAuth(): every method resolves to a normalized ApiResponse */
+export interface ApiClient {
+  getMany: <T = unknown>(url: string, opts?: BaseRequestOptions<T[]>) => Promise<ApiResponse<T[]>>;
+  getOne: <T = unknown>(url: string, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  /** Alias: get (auto-detects array/object) */
+  get: <T = unknown>(url: string, opts?: BaseRequestOptions<T | T[]>) => Promise<ApiResponse<T | T[]>>;
+  post: <T = unknown>(url: string, payload: unknown, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  put: <T = unknown>(url: string, payload: unknown, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  patch: <T = unknown>(url: string, payload: unknown, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  remove: <T = unknown>(url: string, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  /** Alias: delete (equal to remove) */
+  delete: <T = unknown>(url: string, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  upload: <T = unknown>(url: string, data: FormData | Blob | File | Record<string, unknown>, opts?: UploadRequestOptions<T>) => Promise<ApiResponse<T>>;
+  download: Download;
+  /** Add a middleware at the end of the chain; returns a remover */
+  use: (mw: Middleware) => () => void;
+  /** Drop cached GET entries whose URL starts with prefix (all of this client's entries when omitted) */
+  invalidate: (prefix?: string) => Promise<void>;
+  /** Request queue snapshot (zeros when `limits` is not set) */
+  queueStats: () => QueueStats;
+  /** Circuit breaker snapshot by key (empty when `circuitBreaker` is not set) */
+  circuits: () => Record<string, { state: CircuitState; failures: number; openedAt?: number }>;
+  /** Base URL health by host (empty unless `baseURL` is a list or a resolver) */
+  hosts: () => Record<string, HostHealth>;
+  /** Derived client: same options and middleware, other base URL and/or extra headers */
+  extend: (overrides?: ClientExtension) => ApiClient;
+  /** Listen to lifecycle events of one type ("*" = all); returns a remover */
+  on: (type: RequestEventType | "*", listener: RequestEventListener) => () => void;
+  /** Per-route counts and latency histograms */
+  metrics: () => MetricsSnapshot;
+  resetMetrics: () => void;
+  /** Replay queued offline mutations now, in order */
+  flush: () => Promise<FlushResult>;
+  /** Offline queue snapshot (empty when `offline` is not set) */
+  offlineQueue: () => OfflineQueueState;
+  /** Drop one queued mutation by id (all when omitted) */
+  discardQueued: (id?: string) => Promise<void>;
+  /** Collect this call into the next batch request (sent on its own when `batch` is not set) */
+  batch: <T = unknown>(request: BatchRequest) => Promise<ApiResponse<T>>;
+  /** Push updates over SSE (fetch stream) or long-polling, with reconnect and Last-Event-ID resume */
+  subscribe: <T = unknown>(url: string, opts: SubscribeOptions<T>) => Subscription;
+  /** GraphQL operation: `errors` (also on HTTP 200) become EGRAPHQL failures */
+  graphql: <T = unknown>(query: string, variables?: Record<string, unknown>, opts?: GraphQLRequestOptions<T>) => Promise<ApiResponse<T>>;
+  /** JSON-RPC 2.0 call or batch: `error` objects become ERPC failures */
+  rpc: Rpc;
+  raw: AxiosInstance;
+}
+
+/************************************************************************************
+ * ##: Authenticated API Client Factory wrapper
+ * Returns an object with HTTP methods: getMany, getOne, post, put, patch, remove, upload, download
+ * Each method always returns { status:boolean, data:any } and never throws.
+ * @param {Object} clientOptions - Axios client options
+ * History:
+ * 16-08-2025: Created
+ * 21-08-2025: Improved types, validation, and method implementations
+ * 21-10-2025: Added alias "get" for getOne/getMany and "delete" for remove
+ * 19-10-2026: Client-wide retry policy
+ * 19-10-2026: Idempotency-Key on post/put/patch/upload
+ * 19-10-2026: Response cache for GET methods and invalidate()
+ * 19-10-2026: In-flight deduplication for GET methods
+ * 19-10-2026: Optional response schema validation
+ * 19-10-2026: Request priority and queueStats()
+ * 19-10-2026: circuits() snapshot
+ * 19-10-2026: Middleware chain (use) for every method
+ * 19-10-2026: Lifecycle events (on), metrics() and resetMetrics()
+ * 19-10-2026: Resumable chunked mode for upload()
+ * 19-10-2026: download() progress, stream/file modes, RFC 6266 filenames, content type/length
+ * 19-10-2026: Offline mutation queue (flush, offlineQueue, discardQueued)
+ * 19-10-2026: batch() request collector
+ * 19-10-2026: Serialization options (params style, date reviver, key case) in batch sub-requests
+ * 19-10-2026: hosts() health snapshot and extend() for scoped clients
+ * 19-10-2026: subscribe() (SSE / long-polling)
+ * 19-10-2026: graphql() and rpc() operation helpers
+ * 19-10-2026: extend() clients get the raw interceptors and the observer of their parent
+ ************************************************************************************/
+export const withAuth = (clientOptions: ClientOptions = {}): ApiClient => {
+  const api = apiRequest(clientOptions);
+  // Interceptors of the client itself; any registered later on `raw` are forwarded to extend() clients
+  const builtIn = { request: handlersOf(api.interceptors.request).length, response: handlersOf(api.interceptors.response).length };
+  const observer = resolveObserver(clientOptions);
+  const transforms = createTransforms(clientOptions.serialization);
+
+  // Utility to merge per-call axios options
+  const cfg = (extra: Partial<CallConfig> = {}): CallConfig => ({ ...extra });
+
+  // Utility to merge client-wide and per-call retry policies
+  const retryWith = (retry?: Partial<RetryOptions>): Partial<RetryOptions> => ({ ...clientOptions.retry, ...retry });
+
+  // Utilities for client defaults: per-attempt timeout and whole-call deadline
+  const timeoutOf = (timeout?: number): number | undefined => timeout ?? clientOptions.timeout;
+  const deadlineOf = (deadlineMs?: number): number | undefined => deadlineMs ?? clientOptions.deadlineMs;
+
+  // Utility to add the Idempotency-Key header to mutating calls.
+  // Resolved once per call (outside run), so every retry attempt sends the same key.
+  const idempotentHeaders = (headers: Record<string, string> | undefined, idempotencyKey?: string | false): Record<string, string> | undefined => {
+    const { idempotencyKey: generator, idempotencyHeader = "Idempotency-Key" } = clientOptions;
+    if (idempotencyKey === false) return headers;
+    const key = idempotencyKey || (generator === true ? generateId() : typeof generator === "function" ? generator() : undefined);
+    return key ? { ...headers, [idempotencyHeader]: key } : headers;
+  };
+
+  // Middleware chain: client options first, then use() calls, in registration order
+  const middleware: Middleware[] = [...(clientOptions.middleware ?? [])];
+
+  const createContext = (
+    method: string,
+    url: string,
+    options: BaseRequestOptions<unknown>,
+    data?: unknown,
+    headers: Record<string, string> | undefined = options.headers
+  ): RequestContext => ({ requestId: generateId(), method, url, params: options.params, headers: { ...headers }, data, options, meta: {} });
+
+  /************************************************************************************
+   * ##: Run a call through the middleware chain
+   * The first middleware is the outermost: it sees the context first and the result last.
+   * A middleware may change ctx before next(), return early (short-circuit), transform
+   * the result, or call next() again (retry). Thrown errors become { code: "EMIDDLEWARE" }.
+   * History:
+   * 19-10-2026: Created
+   ************************************************************************************/
+  const runChain = (ctx: RequestContext, last: () => Promise<ApiResponse<unknown>>): Promise<ApiResponse<unknown>> => {
+    const chain = middleware.slice(); // later use() calls do not affect calls already running
+
+    const step = async (index: number): Promise<ApiResponse<unknown>> => {
+      const current = chain[index];
+      if (!current) return last();
+      return current(ctx, () => step(index + 1));
+    };
+    return step(0);
+  };
+
+  const dispatch: Dispatch = async <T>(ctx: RequestContext, terminal: (ctx: RequestContext) => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> => {
+    try {
+      return (await runChain(ctx, () => terminal(ctx))) as ApiResponse<T>;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { status: false, data: { message: message || "Middleware failed", code: "EMIDDLEWARE" } };
+    }
+  };
+
+  // Response cache (only when enabled in client options)
+  const cacheStore = clientOptions.cache ? resolveCacheStore(clientOptions) : undefined;
+  const cacheDefaults: CacheOptions = typeof clientOptions.cache === "object" ? clientOptions.cache : {};
+  const scope = cacheScope(clientOptions);
+  const revalidating = new Set<string>();
+
+  // In-flight GETs shared by identical concurrent calls (dedupe), across clients built from the same options
+  const inFlight = sharedFor(clientOptions, "inFlight", () => new Map<string, InFlight>());
+
+  /************************************************************************************
+   * ##: Join (or start) a shared in-flight request
+   * Every subscriber gets the same result. A subscriber whose signal aborts resolves
+   * right away with a cancel error; the shared request is only aborted once all
+   * subscribers have aborted (subscribers without a signal keep it alive).
+   * History:
+   * 19-10-2026: Created
+   ************************************************************************************/
+  const joinInFlight = <R>(key: string, signal: AbortSignal | undefined, start: (signal: AbortSignal) => Promise<R>, onAbort: () => R): Promise<R> => {
+    let flight = inFlight.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const created: InFlight = { controller, subscribers: 0, promise: Promise.resolve() };
+      inFlight.set(key, created);
+      created.promise = start(controller.signal);
+      const clear = () => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      };
+      created.promise.then(clear, clear);
+      flight = created;
+    }
+    const current = flight;
+    current.subscribers += 1;
+    const promise = current.promise as Promise<R>;
+
+    if (!signal) return promise;
+
+    const leave = () => {
+      current.subscribers -= 1;
+      if (current.subscribers <= 0) {
+        if (inFlight.get(key) === current) inFlight.delete(key);
+        current.controller.abort();
+      }
+    };
+
+    if (signal.aborted) {
+      leave();
+      return Promise.resolve(onAbort());
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      const abort = () => {
+        leave();
+        resolve(onAbort());
+      };
+      signal.addEventListener("abort", abort, { once: true });
+      promise.then(
+        (value) => {
+          signal.removeEventListener("abort", abort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener("abort", abort);
+          reject(error);
+        }
+      );
+    });
+  };
+
+  /************************************************************************************
+   * ##: Shared GET path for getMany/getOne/get
+   * Without cache: plain run(). With cache: fresh hit, stale-while-revalidate,
+   * or conditional request (If-None-Match / If-Modified-Since) where 304 serves the cached body.
+   * With dedupe, identical concurrent network calls share one request.
+   * History:
+   * 19-10-2026: Created
+   * 19-10-2026: In-flight deduplication
+   * 19-10-2026: In-flight calls shared by clients built from the same options
+   * 19-10-2026: Schema failures are reported as failed calls (events, metrics, attempts/durationMs)
+   ************************************************************************************/
+  const getRequest = <T>(url: string, options: BaseRequestOptions<T>): Promise<ApiResponse<T>> =>
+    dispatch<T>(createContext("get", url, options), async (ctx) => {
+      const callOptions: BaseRequestOptions<T> = { ...(ctx.options as BaseRequestOptions<T>), params: ctx.params, headers: ctx.headers };
+      const startedAt = Date.now();
+      const stats = { attempts: 0 };
+      // Validation runs per caller (after cache/dedupe), so shared raw data is never reused unchecked
+      const result = await cachedGet<T>(ctx.url, callOptions, ctx, stats);
+      const validated = applySchema(result, callOptions.schema);
+      if (validated.status || !result.status) return validated;
+      return { status: false, data: { ...validated.data, attempts: stats.attempts, durationMs: Date.now() - startedAt } };
+    });
+
+  // stats.attempts: attempts made by this caller (0 when served from cache or joined to an in-flight call)
+  const cachedGet = async <T>(url: string, options: BaseRequestOptions<T>, ctx: RequestContext, stats: { attempts: number }): Promise<ApiResponse<T>> => {
+    const { params, headers, signal, timeout, deadlineMs, responseType, retry, schema, priority } = options;
+
+    const fetchOnce = async (conditional: Record<string, string>, callSignal?: AbortSignal): Promise<GetResult<T>> => {
+      const revalidate = Object.keys(conditional).length > 0;
+
+      let response: AxiosResponse<T> | undefined;
+      const call = observer.track(ctx);
+      const result = await run<T>(
+        async (attempt) => {
+          response = await api.get<T>(
+            url,
+            cfg({
+              params,
+              headers: revalidate ? { ...headers, ...conditional } : headers,
+              ...attempt,
+              responseType,
+              priority,
+              _call: call,
+              ...(revalidate ? { validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304 } : {}),
+            })
+          );
+          return response;
+        },
+        { retry: retryWith(retry), reportSchema: schema, call, signal: callSignal, timeout: timeoutOf(timeout), deadlineMs: deadlineOf(deadlineMs) }
+      );
+      stats.attempts = call.attempt;
+      return { result, response };
+    };
+
+    const send = (entry?: CacheEntry): Promise<GetResult<T>> => {
+      const conditional: Record<string, string> = {};
+      if (entry?.etag) conditional["If-None-Match"] = entry.etag;
+      if (entry?.lastModified) conditional["If-Modified-Since"] = entry.lastModified;
+
+      if (!(options.dedupe ?? clientOptions.dedupe)) return fetchOnce(conditional, signal);
+
+      // Identical = same url, params (none = empty), per-call headers (incl. conditional ones) and responseType
+      const sameParams = params && Object.keys(params).length ? params : undefined;
+      const key = `GET ${url} ${stableStringify({ params: sameParams, headers: { ...headers, ...conditional }, responseType })}`;
+      return joinInFlight<GetResult<T>>(key, signal, (sharedSignal) => fetchOnce(conditional, sharedSignal), () => ({ result: canceledResponse() }));
+    };
+
+    if (!cacheStore || options.cache === false) return (await send()).result;
+
+    const ttlMs = options.cache?.ttlMs ?? cacheDefaults.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    const swrMs = options.cache?.staleWhileRevalidateMs ?? cacheDefaults.staleWhileRevalidateMs ?? 0;
+    const key = cacheKey(scope, url, params);
+
+    // Fetch (conditionally when possible) and update the store
+    const refresh = async (entry?: CacheEntry): Promise<ApiResponse<T>> => {
+      const { result, response } = await send(entry);
+      if (!result.status) return result;
+
+      const now = Date.now();
+      if (entry && response?.status === 304) {
+        await safely("cache store", () => cacheStore.set(key, { ...entry, storedAt: now, expiresAt: now + ttlMs, staleUntil: now + ttlMs + swrMs }));
+        return { status: true, data: entry.data as T };
+      }
+
+      const cacheControl = String(response?.headers?.["cache-control"] ?? "");
+      if (!/no-store/i.test(cacheControl)) {
+        const etag = response?.headers?.["etag"];
+        const lastModified = response?.headers?.["last-modified"];
+        await safely("cache store", () =>
+          cacheStore.set(key, {
+            data: result.data,
+            storedAt: now,
+            expiresAt: now + ttlMs,
+            staleUntil: now + ttlMs + swrMs,
+            etag: etag ? String(etag) : undefined,
+            lastModified: lastModified ? String(lastModified) : undefined,
+          })
+        );
+      }
+      return result;
+    };
+
+    const entry = await safely("cache store", () => cacheStore.get(key));
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) return { status: true, data: entry.data as T };
+
+    if (entry && now < entry.staleUntil) {
+      // Serve stale now, revalidate once in background
+      if (!revalidating.has(key)) {
+        revalidating.add(key);
+        const done = () => {
+          revalidating.delete(key);
+        };
+        refresh(entry).then(done, done);
+      }
+      return { status: true, data: entry.data as T };
+    }
+
+    return refresh(entry);
+  };
+
+  // Terminal step for plain calls: one axios request per attempt, built from the (middleware-updated) context
+  const send = <T>(ctx: RequestContext, extra: Partial<CallConfig> = {}, settle?: (result: ApiResponse<T>) => ApiResponse<T>): Promise<ApiResponse<T>> => {
+    const { signal, timeout, deadlineMs, responseType, retry, schema, priority } = ctx.options as BaseRequestOptions<T>;
+    const call = observer.track(ctx);
+    return run<T>(
+      (attempt) =>
+        api.request<T>(
+          cfg({ method: ctx.method, url: ctx.url, params: ctx.params, data: ctx.data, headers: ctx.headers, ...attempt, responseType, priority, _call: call, ...extra })
+        ),
+      { retry: retryWith(retry), schema, settle, call, signal, timeout: timeoutOf(timeout), deadlineMs: deadlineOf(deadlineMs) }
+    );
+  };
+
+  // Offline queue (only when enabled): replays go straight to run(), the middleware already ran on the first try
+  const offlineQueue = clientOptions.offline
+    ? resolveOfflineQueue(clientOptions, (mutation) => {
+        const call = observer.track({ requestId: mutation.id, method: mutation.method, url: mutation.url });
+        return run<unknown>(
+          (attempt) =>
+            api.request(cfg({ method: mutation.method, url: mutation.url, params: mutation.params, data: mutation.data, headers: mutation.headers, ...attempt, _call: call })),
+          { retry: retryWith(), call, timeout: timeoutOf(), deadlineMs: deadlineOf() }
+        );
+      })
+    : undefined;
+
+  /************************************************************************************
+   * ##: Terminal step for post/put/patch/delete with the offline queue
+   * A mutation that gets no response (network error) is stored for replay and resolves
+   * with { code: "EQUEUED" }. While mutations are waiting, new ones queue behind them,
+   * so the server always sees them in call order.
+   * History:
+   * 19-10-2026: Created
+   * 19-10-2026: Only transport failures are queued; no flush when autoFlush is false
+   ************************************************************************************/
+  const sendMutation = async <T>(ctx: RequestContext): Promise<ApiResponse<T>> => {
+    if (!offlineQueue) return send<T>(ctx);
+    const offline = typeof clientOptions.offline === "object" ? clientOptions.offline : {};
+    const shouldQueue = offline.shouldQueue ?? defaultShouldQueue;
+
+    const queue = async (reason?: ErrorData): Promise<ApiResponse<T>> => {
+      const queued = await offlineQueue.enqueue({ method: ctx.method, url: ctx.url, params: ctx.params, data: ctx.data, headers: ctx.headers, lastError: reason });
+      return { status: false, data: { message: "Request queued for replay", code: "EQUEUED", queueId: queued.id, reason: reason?.code } };
+    };
+
+    if ((await offlineQueue.size()) > 0) {
+      const result = await queue();
+      if (offline.autoFlush ?? true) offlineQueue.flush();
+      return result;
+    }
+
+    const result = await send<T>(ctx);
+    if (result.status || !(await safely("offline queue hook", () => shouldQueue(result.data, ctx)))) return result;
+    return queue(result.data);
+  };
+
+  // batch(): calls waiting for the next batch request
+  type BatchEntry = { request: BatchRequest & { id: string }; resolve: (result: ApiResponse<unknown>) => void };
+  let batchQueue: BatchEntry[] = [];
+  let batchTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /************************************************************************************
+   * ##: Send one batch request and split its response back to the callers
+   * JSON: POST { requests: [{ id, method, url, headers?, body? }] } -> [{ id?, status, headers?, body }]
+   * (or { responses: [...] }). Multipart: multipart/mixed both ways.
+   * Sub-responses are matched by id (by position when ids are missing) and normalized like
+   * real responses; a failed batch request fails every call in it.
+   * History:
+   * 19-10-2026: Created
+   ************************************************************************************/
+  const sendBatch = async (batch: BatchOptions, entries: BatchEntry[]): Promise<void> => {
+    const multipart = batch.format === "multipart";
+    const requests = entries.map((entry) => entry.request);
+    const boundary = `batch_${hexId(16)}`;
+    const ctx = createContext(
+      "post",
+      batch.endpoint,
+      {},
+      multipart
+        ? buildMultipartBatch(
+            requests.map((request) => ({ ...request, body: transforms.request(request.body) })),
+            boundary,
+            transforms.serialize
+          )
+        : { requests: requests.map(({ id, method, url, params, headers, body }) => ({ id, method: method.toUpperCase(), url: withQuery(url, params, transforms.serialize), headers, body })) },
+      multipart ? { "Content-Type": `multipart/mixed; boundary=${boundary}` } : undefined
+    );
+
+    let response: AxiosResponse<unknown> | undefined;
+    const result = await dispatch<unknown>(ctx, (current) => {
+      const call = observer.track(current);
+      return run<unknown>(
+        async (attempt) => {
+          const res = await api.request(
+            cfg({ method: "post", url: current.url, params: current.params, data: current.data, headers: current.headers, ...attempt, responseType: multipart ? "text" : undefined, _call: call })
+          );
+          response = res;
+          return res;
+        },
+        { retry: retryWith(), call, timeout: timeoutOf(), deadlineMs: deadlineOf() }
+      );
+    });
+
+    if (!result.status) {
+      entries.forEach((entry) => entry.resolve(result));
+      return;
+    }
+
+    const parts: BatchPartResponse[] = multipart
+      ? parseMultipartBatch(String(response?.data ?? ""), String(response?.headers?.["content-type"] ?? "")).map((part) => ({ ...part, body: transforms.response(part.body) }))
+      : ((batchEntries(result.data) ?? []) as BatchPartResponse[]);
+    const byId = new Map<string, BatchPartResponse>();
+    parts.forEach((part) => {
+      if (part && part.id !== undefined) byId.set(String(part.id), part);
+    });
+
+    entries.forEach((entry, index) => {
+      const part = byId.size ? byId.get(entry.request.id) : parts[index];
+      entry.resolve(part && typeof part.status === "number" ? normalizePart(part) : missingPart());
+    });
+  };
+
+  const flushBatch = (): void => {
+    const batch = clientOptions.batch!;
+    const entries = batchQueue;
+    batchQueue = [];
+    batchTimer = undefined;
+    const size = Math.max(1, batch.maxSize ?? DEFAULT_BATCH_SIZE);
+    for (let start = 0; start < entries.length; start += size) {
+      const chunk = entries.slice(start, start + size);
+      sendBatch(batch, chunk).catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        chunk.forEach((entry) => entry.resolve({ status: false, data: { message: message || "Batch failed", code: "EBATCH" } }));
+      });
+    }
+  };
+
+  /************************************************************************************
+   * ##: Chunked, resumable upload (Content-Range)
+   * 1. Session: POST url with Upload-Length / Upload-Name / Upload-Type headers; the upload URL
+   *    comes from the Location header or `uploadUrl` in the body (skipped when resuming)
+   * 2. Chunks: PUT uploadUrl with Content-Range, `concurrency` at a time, each retried by run()
+   * 3. Last chunk: sent alone once all others are stored; its response is the result
+   * The session is saved after every chunk, so upload() of the same file continues where it
+   * stopped. On abort, signal reason "pause" keeps the session, any other reason drops it.
+   * `deadlineMs` is the budget of the whole upload (session, chunks and retries), not of each chunk.
+   * History:
+   * 19-10-2026: Created
+   * 19-10-2026: Default session key includes a hash of the first and last chunk
+   * 19-10-2026: One deadline for the whole upload, shared by every chunk
+   ************************************************************************************/
+  const chunkedUpload = async <T>(ctx: RequestContext, file: Blob, chunked: ChunkedUploadOptions): Promise<ApiResponse<T>> => {
+    const { signal, deadlineMs } = ctx.options as UploadRequestOptions<T>;
+    const budget = deadlineOf(deadlineMs);
+    if (!budget || budget <= 0) return uploadChunks<T>(ctx, file, chunked, { signal, remaining: () => undefined });
+
+    // The deadline signal follows the caller's (with its reason, so "pause" still keeps the session)
+    const controller = new AbortController();
+    const deadlineAt = Date.now() + budget;
+    let expired = false;
+    const follow = () => controller.abort(signal?.reason);
+    const timer = setTimeout(() => {
+      expired = true;
+      controller.abort();
+    }, budget);
+    if (signal?.aborted) follow();
+    else signal?.addEventListener("abort", follow, { once: true });
+
+    try {
+      // Each run gets what is left of the budget, so a backoff past the deadline is not waited for
+      const remaining = () => Math.max(1, deadlineAt - Date.now());
+      const result = await uploadChunks<T>(ctx, file, chunked, { signal: controller.signal, remaining });
+      if (result.status || !(expired || Date.now() >= deadlineAt)) return result;
+      return { status: false, data: { ...result.data, message: `Deadline of ${budget}ms exceeded`, code: "EDEADLINE" } };
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", follow);
+    }
+  };
+
+  // Session and chunks of chunkedUpload(), all sent with the upload-wide deadline signal (helper)
+  const uploadChunks = async <T>(
+    ctx: RequestContext,
+    file: Blob,
+    chunked: ChunkedUploadOptions,
+    deadline: { signal?: AbortSignal; remaining: () => number | undefined }
+  ): Promise<ApiResponse<T>> => {
+    const { signal, timeout, retry, schema, priority } = ctx.options as UploadRequestOptions<T>;
+    const { concurrency = DEFAULT_CHUNK_CONCURRENCY, onProgress } = chunked;
+    const chunkSize = Math.max(1, chunked.chunkSize ?? DEFAULT_CHUNK_SIZE);
+    const total = file.size;
+    const totalChunks = Math.max(1, Math.ceil(total / chunkSize));
+    const store = chunked.store ?? resolveUploadSessionStore(clientOptions);
+    const key = chunked.sessionKey ?? (await uploadSessionKey(ctx.url, file, chunkSize));
+
+    // Chunks carry the call headers except the per-call idempotency key and the body type
+    const idempotencyHeader = (clientOptions.idempotencyHeader ?? "Idempotency-Key").toLowerCase();
+    const chunkHeaders: Record<string, string> = {};
+    Object.keys(ctx.headers).forEach((name) => {
+      if (name.toLowerCase() !== idempotencyHeader && name.toLowerCase() !== "content-type") chunkHeaders[name] = ctx.headers[name];
+    });
+
+    const runOptions = () => ({ retry: retryWith(retry), signal: deadline.signal, timeout: timeoutOf(timeout), deadlineMs: deadline.remaining() });
+
+    // Store calls never break an upload (the session is just not resumable then)
+    let session = await safely("upload session store", () => store.get(key));
+    if (session && (session.size !== total || session.chunkSize !== chunkSize)) session = undefined;
+
+    if (!session) {
+      let response: AxiosResponse<{ uploadUrl?: string } | undefined> | undefined;
+      const call = observer.track(ctx);
+      const created = await run<{ uploadUrl?: string } | undefined>(
+        async (attempt) => {
+          const sessionHeaders = {
+            ...ctx.headers,
+            "Upload-Length": String(total),
+            "Upload-Name": encodeURIComponent((file as Partial<File>).name ?? ""),
+            "Upload-Type": file.type || "application/octet-stream",
+          };
+          const res = await api.request(cfg({ method: "post", url: ctx.url, params: ctx.params, headers: sessionHeaders, ...attempt, priority, _call: call }));
+          response = res;
+          return res;
+        },
+        { ...runOptions(), call }
+      );
+      if (!created.status) return created;
+
+      const uploadUrl = response?.headers?.["location"] ?? created.data?.uploadUrl;
+      if (!uploadUrl) return { status: false, data: { message: "Upload session has no Location header or uploadUrl", code: "EUPLOADSESSION" } };
+      session = { uploadUrl: String(uploadUrl), size: total, chunkSize, uploaded: [], createdAt: Date.now() };
+      await safely("upload session store", () => store.set(key, session!));
+    }
+
+    const current = session;
+    const stored = new Set(current.uploaded);
+    const inFlightBytes: Record<number, number> = {};
+    const sizeOf = (index: number): number => Math.max(0, Math.min(chunkSize, total - index * chunkSize));
+
+    const report = (): void => {
+      if (typeof onProgress !== "function") return;
+      let loaded = 0;
+      stored.forEach((index) => (loaded += sizeOf(index)));
+      Object.keys(inFlightBytes).forEach((index) => (loaded += inFlightBytes[Number(index)]));
+      loaded = Math.min(loaded, total);
+      try {
+        onProgress({ loaded, total, percent: total ? Math.round((loaded / total) * 100) : 100, chunks: stored.size, totalChunks });
+      } catch (error) {
+        console.warn("Error in onProgress hook:", error);
+      }
+    };
+
+    const sendChunk = <R>(index: number, validator?: Validator<R>): Promise<ApiResponse<R>> => {
+      const start = index * chunkSize;
+      const end = start + sizeOf(index);
+      const call = observer.track({ requestId: ctx.requestId, method: "put", url: current.uploadUrl });
+      const headers = {
+        ...chunkHeaders,
+        "Content-Type": "application/octet-stream",
+        "Content-Range": total ? `bytes ${start}-${end - 1}/${total}` : "bytes */0",
+      };
+      return run<R>(
+        (attempt) =>
+          api.request<R>(
+            cfg({
+              method: "put",
+              url: current.uploadUrl,
+              data: file.slice(start, end),
+              headers,
+              ...attempt,
+              priority,
+              _call: call,
+              onUploadProgress: (event: AxiosProgressEvent) => {
+                inFlightBytes[index] = event.loaded;
+                report();
+              },
+            })
+          ),
+        { ...runOptions(), call, schema: validator }
+      ).then((result) => {
+        delete inFlightBytes[index];
+        return result;
+      });
+    };
 
-/************************************************************************************
- * ##: Define which errors are worth retrying
- * @param {Object} err - Error object
- * History:
- * 16-08-2025: Created
- * 21-08-2025: Improved logic to avoid retries on cancel/abort
- ************************************************************************************/
-const isRetriable = (err: AxiosError): boolean => {
-  // não retries em cancel/abort
-  // @ts-ignore - axios.isCancel existe em runtime
-  if ((axios as any).isCancel?.(err) || (err as any)?.code === "ERR_CANCELED") return false;
+    // On failure the session is kept for a later resume, unless the caller aborted for good
+    const fail = async (result: ApiErrorResponse): Promise<ApiErrorResponse> => {
+      const resumable = !signal?.aborted || signal.reason === "pause";
+      if (!resumable) await safely("upload session store", () => store.delete(key));
+      return { status: false, data: { ...result.data, sessionKey: key, resumable } };
+    };
 
-  const status = err?.response?.status;
-  if (!status) return true; // network/timeout
-  return status >= 500 && status < 600; // server errors
-};
+    // All chunks but the last, `concurrency` workers pulling from the same list
+    const pending: number[] = [];
+    for (let index = 0; index < totalChunks - 1; index += 1) if (!stored.has(index)) pending.push(index);
+    let failure: ApiErrorResponse | undefined;
 
-/**
- * **********************************************************************************
- * ##: Runner: wraps any axios call
- * Handles retries, Normalizes result, Never throws (always returns {status,data})
- * It guarantees a normalized result in the shape:
- * { status: true, data } on success
- * { status: false, data: { ...error } } on failure  
- * History:
- * 16-08-2025: Created
- * 21-08-2025: Improved error handling and types
-/************************************************************************************/
-const run = async <T = unknown>(fn: () => Promise<AxiosResponse<T>>, options: { retry?: Partial<RetryOptions> } = {}): Promise<ApiResponse<T>> => {
-  let attempt = 0;
-  const retry = { ...DEFAULT_RETRY, ...(options.retry ?? {}) };
-  const maxAttempts = 1 + Math.max(0, retry.retries);
+    const worker = async (): Promise<void> => {
+      while (!failure && pending.length) {
+        const index = pending.shift()!;
+        const result = await sendChunk<unknown>(index);
+        if (!result.status) {
+          failure = failure ?? result;
+          return;
+        }
+        stored.add(index);
+        current.uploaded = Array.from(stored).sort((a, b) => a - b);
+        await safely("upload session store", () => store.set(key, current));
+        report();
+      }
+    };
 
-  while (attempt < maxAttempts) {
-    try {
-      const res = await fn();
-      return normalizeSuccess<T>(res);
-    } catch (err) {
-      attempt += 1;
-      if (attempt >= maxAttempts || !isRetriable(err as AxiosError)) {
-        // Final failure: normalize error and exit
-        return normalizeError(err as AxiosError);
+    report();
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, worker));
+    if (failure) return fail(failure);
+
+    const result = await sendChunk<T>(totalChunks - 1, schema);
+    if (!result.status) return fail(result);
+
+    stored.add(totalChunks - 1);
+    report();
+    await safely("upload session store", () => store.delete(key));
+    return result;
+  };
+
+  /************************************************************************************
+   * ##: Real-time subscription (SSE over a fetch stream, long-polling fallback)
+   * Every (re)connection is a GET through middleware and interceptors (auth, failover, limits),
+   * sending Last-Event-ID once an event id is known.
+   * - SSE: read with the event parser; a stream that ends reconnects after the server `retry`
+   *   (or reconnect.baseDelayMs). "auto" switches to long-polling when the runtime has no fetch
+   *   streams or the server does not answer with text/event-stream.
+   * - Polling: GET pollUrl, deliver its events, poll again (after pollIntervalMs).
+   * Failures go to onError and reconnect with computeBackoff; statuses outside
+   * reconnect.retryOn (e.g. 401/404) or `reconnect.retries` consecutive failures close it.
+   * History:
+   * 19-10-2026: Created
+   ************************************************************************************/
+  const subscribe = <T = unknown>(url: string, options: SubscribeOptions<T>): Subscription => {
+    validateUrl(url);
+    const { onEvent, onError, onOpen, signal, pollUrl = url, pollTimeoutMs = DEFAULT_POLL_TIMEOUT_MS, pollIntervalMs = 0 } = options;
+    const reconnect = { ...DEFAULT_RETRY, retries: Infinity, ...options.reconnect };
+    const canStream = Boolean(clientOptions.adapter) || (typeof fetch === "function" && typeof ReadableStream !== "undefined");
+    const controller = new AbortController();
+    let transport: SubscriptionTransport = options.transport === "poll" || (options.transport !== "sse" && !canStream) ? "poll" : "sse";
+    let lastEventId = options.lastEventId;
+    let serverRetryMs: number | undefined;
+    let failures = 0;
+    let connected = false;
+    let closed = false;
+
+    const close = (): void => {
+      if (closed) return;
+      closed = true;
+      signal?.removeEventListener("abort", close);
+      controller.abort();
+    };
+    if (signal?.aborted) close();
+    else signal?.addEventListener("abort", close, { once: true });
+
+    const open = (): void => {
+      failures = 0;
+      if (connected && transport === "poll") return; // polling: once per (re)connection
+      connected = true;
+      safely("onOpen hook", () => onOpen?.(transport));
+    };
+
+    const deliver = (message: { id?: string; event: string; data: unknown }): void => {
+      if (closed) return;
+      if (message.id !== undefined) lastEventId = message.id;
+      safely("onEvent hook", () => onEvent({ ...message, data: message.data as T, transport }));
+    };
+
+    // One GET through the middleware chain; `response` keeps headers and the stream
+    const request = async (target: string, sse: boolean): Promise<{ result: ApiResponse<unknown>; response?: AxiosResponse<unknown> }> => {
+      const headers: Record<string, string> = { ...options.headers, ...(sse ? { Accept: "text/event-stream", "Cache-Control": "no-cache" } : {}) };
+      if (lastEventId !== undefined) headers["Last-Event-ID"] = lastEventId;
+      // No timeout on streams (it would cut the open connection); browsers stream through the fetch adapter
+      const transportConfig: Partial<CallConfig> = sse
+        ? { responseType: "stream", timeout: 0, ...(clientOptions.adapter ? {} : { adapter: "fetch" as const }) }
+        : { timeout: pollTimeoutMs };
+
+      let response: AxiosResponse<unknown> | undefined;
+      const result = await dispatch<unknown>(createContext("get", target, { params: options.params, headers }), (ctx) => {
+        const call = observer.track(ctx);
+        return run<unknown>(
+          async (attempt) => {
+            try {
+              const res = await api.get<unknown>(ctx.url, cfg({ params: ctx.params, headers: ctx.headers, ...attempt, ...transportConfig, _call: call }));
+              response = res;
+              return res;
+            } catch (error) {
+              if (sse) await readErrorBody(error as AxiosError);
+              throw error;
+            }
+          },
+          { retry: { retries: 0 }, call, signal: controller.signal }
+        );
+      });
+      return { result, response };
+    };
+
+    // One SSE connection until the stream ends; undefined = switched to long-polling
+    const streamOnce = async (): Promise<ApiResponse<unknown> | undefined> => {
+      const { result, response } = await request(url, true);
+      if (!result.status) return result;
+
+      if (!String(response?.headers?.["content-type"] ?? "").includes("text/event-stream")) {
+        const body = result.data as { cancel?: () => Promise<void>; destroy?: () => void } | undefined;
+        if (typeof body?.cancel === "function") body.cancel().catch(() => undefined);
+        else if (typeof body?.destroy === "function") body.destroy();
+        if (options.transport === "sse") {
+          return { status: false, data: { message: "Response is not an event stream", code: "ENOTEVENTSTREAM", statusCode: response?.status } };
+        }
+        transport = "poll";
+        return undefined;
       }
-      // Wait before next retry
-      const wait = computeBackoff(attempt, retry);
-      await delay(wait);
-    }
-  }
-  // Should never reach here, but just in case
-  return { status: false, data: { message: "Unexpected client error" } };
-};
 
-/** /************************************************************************************
- *  Public Factory
- * /*************************************************************************************/
+      open();
+      const parse = createEventParser(
+        (message) => deliver({ ...message, data: transforms.response(tryJson(message.data)) }),
+        (ms) => (serverRetryMs = ms)
+      );
+      try {
+        await readText(result.data, parse);
+        return { status: true, data: undefined }; // closed by the server: reconnect
+      } catch (error) {
+        if (closed) return { status: true, data: undefined };
+        const message = error instanceof Error ? error.message : String(error);
+        return { status: false, data: { message: message || "Event stream interrupted", code: (error as { code?: string })?.code ?? "ESTREAM" } };
+      } finally {
+        connected = false;
+      }
+    };
 
-// Input validation helpers
-const validateUrl = (url: string): void => {
-  if (!url || typeof url !== "string" || url.trim() === "") {
-    throw new Error("URL must be a non-empty string");
-  }
-};
+    const pollOnce = async (): Promise<ApiResponse<unknown>> => {
+      const { result } = await request(pollUrl, false);
+      if (!result.status) return result;
+      open();
+      pollEvents(result.data).forEach(deliver);
+      return result;
+    };
 
-/************************************************************************************
- * ##: Request options interfaces
- * History:
- * 16-08-2025: Created
- * 21-08-2025: Split into specific interfaces for better type safety
- ************************************************************************************/
-interface BaseRequestOptions {
-  params?: Record<string, unknown>;
-  headers?: Record<string, string>;
-  signal?: AbortSignal;
-  timeout?: number;
-  responseType?: AxiosRequestConfig["responseType"];
-  retry?: Partial<RetryOptions>;
-}
+    const loop = async (): Promise<void> => {
+      while (!closed) {
+        const current = transport;
+        const outcome = current === "sse" ? await streamOnce() : await pollOnce();
+        if (closed) return;
+        if (!outcome) continue;
+        if (outcome.status) {
+          await pause(current === "poll" ? pollIntervalMs : serverRetryMs ?? reconnect.baseDelayMs, controller.signal);
+          continue;
+        }
 
-interface UploadRequestOptions extends BaseRequestOptions {
-  onUploadProgress?: (progressEvent: AxiosProgressEvent) => void;
-  fieldName?: string;
-}
+        connected = false;
+        safely("onError hook", () => onError?.(outcome));
+        failures += 1;
+        const { statusCode, code } = outcome.data;
+        const retriable = code !== "ERR_CANCELED" && (statusCode === undefined || reconnect.retryOn.includes(statusCode));
+        if (!retriable || failures > reconnect.retries) {
+          close();
+          return;
+        }
+        await pause(serverRetryMs ?? computeBackoff(failures, reconnect), controller.signal);
+      }
+    };
 
-// For backward compatibility
-interface RequestOptions extends BaseRequestOptions {
-  onUploadProgress?: (progressEvent: AxiosProgressEvent) => void;
-  fieldName?: string;
-}
+    loop().catch((error) => {
+      console.warn("Error in subscription:", error);
+      close();
+    });
 
-/************************************************************************************
- * ##: Authenticated API Client Factory wrapper
- * Returns an object with HTTP methods: getMany, getOne, post, put, patch, remove, upload, download
- * Each method always returns { status:boolean, data:any } and never throws.
- * @param {Object} clientOptions - Axios client options
- * History:
- * 16-08-2025: Created
- * 21-08-2025: Improved types, validation, and method implementations
- * 21-10-2025: Added alias "get" for getOne/getMany and "delete" for remove
- ************************************************************************************/
-export const withAuth = (
-  clientOptions: ClientOptions = {}
-): {
-  getMany: <T = unknown>(url: string, opts?: BaseRequestOptions) => Promise<ApiResponse<T[]>>;
-  getOne: <T = unknown>(url: string, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  /** Alias: get (auto-detects array/object) */
-  get: <T = unknown>(url: string, opts?: BaseRequestOptions) => Promise<ApiResponse<T | T[]>>;
-  post: <T = unknown>(url: string, payload: unknown, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  put: <T = unknown>(url: string, payload: unknown, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  patch: <T = unknown>(url: string, payload: unknown, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  remove: <T = unknown>(url: string, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  /** Alias: delete (equal to remove) */
-  delete: <T = unknown>(url: string, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  upload: <T = unknown>(url: string, data: FormData | Blob | File | Record<string, unknown>, opts?: UploadRequestOptions) => Promise<ApiResponse<T>>;
-  download: (url: string, opts?: BaseRequestOptions) => Promise<ApiResponse<{ blob: Blob; filename?: string }>>;
-  raw: AxiosInstance;
-} => {
-  const api = apiRequest(clientOptions);
+    return {
+      close,
+      get closed() {
+        return closed;
+      },
+      get transport() {
+        return transport;
+      },
+      get lastEventId() {
+        return lastEventId;
+      },
+    };
+  };
 
-  // Utility to merge per-call axios options
-  const cfg = (extra: Partial<AxiosRequestConfig> = {}): AxiosRequestConfig => ({ ...extra });
+  /************************************************************************************
+   * ##: GraphQL operation: POST { query, variables, operationName } to graphql.endpoint
+   * Persisted queries: the sha256 hash is sent alone first (extensions.persistedQuery); the full
+   * query follows only when the server answers PersistedQueryNotFound.
+   * Queries are retried like GET, mutations follow the POST retry policy.
+   * The envelope and variables are sent as given: requestCase never renames them (variable
+   * names must match the query document).
+   * History:
+   * 19-10-2026: Created
+   * 19-10-2026: Envelope and variables exempt from the request key transform
+   * 19-10-2026: GraphQL errors on HTTP 200 are reported as failed calls (events, metrics)
+   ************************************************************************************/
+  const graphql = <T = unknown>(query: string, variables?: Record<string, unknown>, options: GraphQLRequestOptions<T> = {}): Promise<ApiResponse<T>> => {
+    const { operationName, endpoint = clientOptions.graphql?.endpoint ?? DEFAULT_GRAPHQL_ENDPOINT, persisted = clientOptions.graphql?.persistedQueries, schema, ...rest } = options;
+    validateUrl(endpoint);
+    const retry = isGraphQLQuery(query) ? { retryNonIdempotent: true, ...rest.retry } : rest.retry;
 
-  return {
-    getMany: <T = unknown>(url: string, options: BaseRequestOptions = {}): Promise<ApiResponse<T[]>> => {
+    return dispatch<T>(createContext("post", endpoint, { ...rest, retry }, { query, variables, operationName }), async (ctx) => {
+      // GraphQL errors (also on HTTP 200) and schema failures end the call as failure, so events and metrics match the result
+      const settle = (result: ApiResponse<unknown>): ApiResponse<unknown> => applySchema(toGraphQLResult<T>(result), schema);
+      if (!persisted) return send<unknown>(ctx, { _rawBody: true }, settle) as Promise<ApiResponse<T>>;
+
+      const { query: document, ...operation } = ctx.data as { query?: string };
+      const extensions = { persistedQuery: { version: 1, sha256Hash: typeof persisted === "string" ? persisted : await sha256Hex(document ?? "") } };
+      // An unknown hash is the expected first answer, not a failed call: the full query follows
+      const result = await send<unknown>({ ...ctx, data: { ...operation, extensions } }, { _rawBody: true }, (hashOnly) =>
+        document && isPersistedQueryNotFound(hashOnly) ? hashOnly : settle(hashOnly)
+      );
+      if (!document || !isPersistedQueryNotFound(result)) return result as ApiResponse<T>;
+      return send<unknown>({ ...ctx, data: { ...operation, query: document, extensions } }, { _rawBody: true }, settle) as Promise<ApiResponse<T>>;
+    });
+  };
+
+  /************************************************************************************
+   * ##: JSON-RPC 2.0 call, or a batch array (one result per call, matched by id)
+   * A failed batch request, or a single error object answering the batch, fails every call.
+   * requestCase applies to params only, never to the envelope (jsonrpc, id, method).
+   * History:
+   * 19-10-2026: Created
+   * 19-10-2026: Envelope exempt from the request key transform
+   * 19-10-2026: JSON-RPC errors on HTTP 200 are reported as failed calls (events, metrics)
+   ************************************************************************************/
+  const rpc = (async (target: string | RpcCall[], paramsOrOptions?: unknown, callOptions?: RpcRequestOptions): Promise<ApiResponse<unknown> | ApiResponse<unknown>[]> => {
+    const isBatch = Array.isArray(target);
+    const options = ((isBatch ? paramsOrOptions : callOptions) ?? {}) as RpcRequestOptions;
+    const { endpoint = clientOptions.rpc?.endpoint ?? DEFAULT_RPC_ENDPOINT, schema, ...rest } = options;
+    validateUrl(endpoint);
+
+    if (!isBatch) {
+      const body = { jsonrpc: "2.0", id: generateId(), method: target, ...(paramsOrOptions !== undefined ? { params: transforms.request(paramsOrOptions) } : {}) };
+      return dispatch<unknown>(createContext("post", endpoint, rest, body), (ctx) => send<unknown>(ctx, { _rawBody: true }, (result) => applySchema(toRpcResult(result), schema)));
+    }
+
+    if (!target.length) return [];
+    const calls = target.map(({ method, params }, index) => ({ jsonrpc: "2.0", id: index + 1, method, ...(params !== undefined ? { params: transforms.request(params) } : {}) }));
+    const result = await dispatch<unknown>(createContext("post", endpoint, rest, calls), (ctx) => send<unknown>(ctx, { _rawBody: true }));
+    if (!result.status || !Array.isArray(result.data)) return calls.map(() => toRpcResult(result));
+
+    const replies = new Map<string, unknown>();
+    (result.data as { id?: unknown }[]).forEach((reply) => {
+      if (reply && reply.id !== undefined && reply.id !== null) replies.set(String(reply.id), reply);
+    });
+    return calls.map((call) => {
+      const reply = replies.get(String(call.id));
+      return reply ? applySchema(toRpcResult({ status: true, data: reply }), schema) : missingPart();
+    });
+  }) as Rpc;
+
+  const client = {
+    getMany: <T = unknown>(url: string, options: BaseRequestOptions<T[]> = {}): Promise<ApiResponse<T[]>> => {
       validateUrl(url);
-      const { params, headers, signal, timeout, responseType, retry } = options;
-      return run<T[]>(() => api.get<T[]>(url, cfg({ params, headers, signal, timeout, responseType })), { retry });
+      return getRequest<T[]>(url, options);
     },
 
-    getOne: <T = unknown>(url: string, options: BaseRequestOptions = {}): Promise<ApiResponse<T>> => {
+    getOne: <T = unknown>(url: string, options: BaseRequestOptions<T> = {}): Promise<ApiResponse<T>> => {
       validateUrl(url);
-      const { params, headers, signal, timeout, responseType, retry } = options;
-      return run<T>(() => api.get<T>(url, cfg({ params, headers, signal, timeout, responseType })), { retry });
+      return getRequest<T>(url, options);
     },
 
     /** Alias: get (auto-detects array/object) */
-    get: <T = unknown>(url: string, options: BaseRequestOptions = {}): Promise<ApiResponse<T | T[]>> => {
+    get: <T = unknown>(url: string, options: BaseRequestOptions<T | T[]> = {}): Promise<ApiResponse<T | T[]>> => {
       validateUrl(url);
-      const { params, headers, signal, timeout, responseType, retry } = options;
-      return run<T | T[]>(() => api.get<T | T[]>(url, cfg({ params, headers, signal, timeout, responseType })), { retry });
+      return getRequest<T | T[]>(url, options);
     },
 
-    post: <T = unknown>(url: string, payload: unknown, options: BaseRequestOptions = {}): Promise<ApiResponse<T>> => {
+    post: <T = unknown>(url: string, payload: unknown, options: BaseRequestOptions<T> = {}): Promise<ApiResponse<T>> => {
       validateUrl(url);
-      const { headers, signal, timeout, responseType, retry } = options;
-      return run<T>(() => api.post<T>(url, payload, cfg({ headers, signal, timeout, responseType })), { retry });
+      const headers = idempotentHeaders(options.headers, options.idempotencyKey);
+      return dispatch<T>(createContext("post", url, options, payload, headers), (ctx) => sendMutation<T>(ctx));
     },
 
-    put: <T = unknown>(url: string, payload: unknown, options: BaseRequestOptions = {}): Promise<ApiResponse<T>> => {
+    put: <T = unknown>(url: string, payload: unknown, options: BaseRequestOptions<T> = {}): Promise<ApiResponse<T>> => {
       validateUrl(url);
-      const { headers, signal, timeout, responseType, retry } = options;
-      return run<T>(() => api.put<T>(url, payload, cfg({ headers, signal, timeout, responseType })), { retry });
+      const headers = idempotentHeaders(options.headers, options.idempotencyKey);
+      return dispatch<T>(createContext("put", url, options, payload, headers), (ctx) => sendMutation<T>(ctx));
     },
 
-    patch: <T = unknown>(url: string, payload: unknown, options: BaseRequestOptions = {}): Promise<ApiResponse<T>> => {
+    patch: <T = unknown>(url: string, payload: unknown, options: BaseRequestOptions<T> = {}): Promise<ApiResponse<T>> => {
       validateUrl(url);
-      const { headers, signal, timeout, responseType, retry } = options;
-      return run<T>(() => api.patch<T>(url, payload, cfg({ headers, signal, timeout, responseType })), { retry });
+      const headers = idempotentHeaders(options.headers, options.idempotencyKey);
+      return dispatch<T>(createContext("patch", url, options, payload, headers), (ctx) => sendMutation<T>(ctx));
     },
 
-    remove: <T = unknown>(url: string, options: BaseRequestOptions = {}): Promise<ApiResponse<T>> => {
+    remove: <T = unknown>(url: string, options: BaseRequestOptions<T> = {}): Promise<ApiResponse<T>> => {
       validateUrl(url);
-      const { params, headers, signal, timeout, responseType, retry } = options;
-      return run<T>(() => api.delete<T>(url, cfg({ params, headers, signal, timeout, responseType })), { retry });
+      return dispatch<T>(createContext("delete", url, options), (ctx) => sendMutation<T>(ctx));
     },
 
     /** Alias: delete (equal to remove) */
-    delete: <T = unknown>(url: string, options: BaseRequestOptions = {}): Promise<ApiResponse<T>> => {
+    delete: <T = unknown>(url: string, options: BaseRequestOptions<T> = {}): Promise<ApiResponse<T>> => {
       validateUrl(url);
-      const { params, headers, signal, timeout, responseType, retry } = options;
-      return run<T>(() => api.delete<T>(url, cfg({ params, headers, signal, timeout, responseType })), { retry });
+      return dispatch<T>(createContext("delete", url, options), (ctx) => sendMutation<T>(ctx));
     },
 
     /** Upload: handles File/Blob/FormData. Returns normalized {status,data} */
-    upload: <T = unknown>(url: string, data: FormData | Blob | File | Record<string, unknown>, options: UploadRequestOptions = {}): Promise<ApiResponse<T>> => {
+    upload: <T = unknown>(url: string, data: FormData | Blob | File | Record<string, unknown>, options: UploadRequestOptions<T> = {}): Promise<ApiResponse<T>> => {
       validateUrl(url);
 
-      const { fieldName = "file", onUploadProgress, headers, signal, timeout, retry } = options;
+      const { fieldName = "file", chunked } = options;
+      const headers = idempotentHeaders(options.headers, options.idempotencyKey);
+
+      if (chunked) {
+        if (!(data instanceof Blob)) throw new Error("Invalid upload data type. Chunked upload expects a Blob or File.");
+        return dispatch<T>(createContext("post", url, options, data, headers), (ctx) =>
+          chunkedUpload<T>(ctx, ctx.data as Blob, chunked === true ? {} : chunked)
+        );
+      }
 
       let formData: FormData;
 
@@ -429,82 +3809,188 @@ export const withAuth = (
         throw new Error("Invalid upload data type. Expected FormData, Blob, File, or object.");
       }
 
-      return run<T>(
-        () =>
-          api.post<T>(
-            url,
-            formData,
-            cfg({
-              headers: {
-                ...(headers || {}),
-                "Content-Type": "multipart/form-data",
-              },
-              signal,
-              timeout,
-              onUploadProgress,
-            })
-          ),
-        { retry }
+      return dispatch<T>(createContext("post", url, options, formData, headers), (ctx) =>
+        send<T>(
+          { ...ctx, headers: { ...ctx.headers, "Content-Type": "multipart/form-data" } },
+          { onUploadProgress: (ctx.options as UploadRequestOptions<T>).onUploadProgress }
+        )
       );
     },
 
-    /** Download as Blob. Returns {status:true,data:{blob,filename?}} */
-    download: async (url: string, options: BaseRequestOptions = {}): Promise<ApiResponse<{ blob: Blob; filename?: string }>> => {
+    /** Download as Blob (default), stream (`stream: true`) or file (`saveTo`, Node).
+     * Returns {status:true,data:{blob|stream|path, filename?, contentType?, contentLength?}} */
+    download: ((url: string, options: DownloadOptions = {}): Promise<ApiResponse<BlobDownload | StreamDownload | FileDownload>> => {
       validateUrl(url);
 
-      const { params, headers, signal, timeout, retry } = options;
+      return dispatch<BlobDownload | StreamDownload | FileDownload>(createContext("get", url, options), async (ctx) => {
+        const { signal, timeout, deadlineMs, retry, priority, onDownloadProgress, stream, saveTo } = ctx.options as DownloadOptions;
+        const streaming = Boolean(stream || saveTo);
+        // Browsers only stream through the fetch adapter (unless a custom transport is set)
+        const adapter = streaming && !isNode() && !clientOptions.adapter ? { adapter: "fetch" as const } : {};
 
-      // Make the request and get the raw response to access headers
-      let response: AxiosResponse<Blob>;
-      const result = await run<Blob>(
-        async () => {
-          response = await api.get<Blob>(
-            url,
-            cfg({
-              params,
-              headers,
-              signal,
-              timeout,
-              responseType: "blob",
-            })
-          );
-          return response;
-        },
-        { retry }
-      );
+        // Make the request and get the raw response to access headers
+        let response: AxiosResponse<unknown> | undefined;
+        const call = observer.track(ctx);
+        const result = await run<unknown>(
+          async (attempt) => {
+            try {
+              const res = await api.get<unknown>(
+                ctx.url,
+                cfg({
+                  params: ctx.params,
+                  headers: ctx.headers,
+                  ...attempt,
+                  priority,
+                  responseType: streaming ? "stream" : isNode() ? "arraybuffer" : "blob", // Node's http adapter has no Blob support
+                  onDownloadProgress,
+                  _call: call,
+                  ...adapter,
+                })
+              );
+              response = res;
+              return res;
+            } catch (error) {
+              await readErrorBody(error as AxiosError);
+              throw error;
+            }
+          },
+          { retry: retryWith(retry), call, signal, timeout: timeoutOf(timeout), deadlineMs: deadlineOf(deadlineMs) }
+        );
 
-      if (!result.status) {
-        return result;
-      }
+        if (!result.status) {
+          return result;
+        }
 
-      // Extract filename from Content-Disposition header if available
-      let filename: string | undefined;
+        const headers = response?.headers ?? {};
+        const contentLength = Number(headers["content-length"]);
+        const meta: DownloadMeta = {
+          filename: parseContentDisposition(headers["content-disposition"]),
+          contentType: headers["content-type"] ? String(headers["content-type"]) : undefined,
+          contentLength: headers["content-length"] !== undefined && !isNaN(contentLength) ? contentLength : undefined,
+        };
 
-      try {
-        const contentDisposition = response!.headers["content-disposition"];
-        if (contentDisposition) {
-          const matches = contentDisposition.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/);
-          if (matches && matches[1]) {
-            filename = matches[1].replace(/['"]/g, "");
-          }
+        if (!streaming) {
+          const body = result.data;
+          const blob = body instanceof Blob ? body : new Blob([body as BlobPart], { type: meta.contentType ?? "" });
+          return { status: true, data: { blob, ...meta } };
         }
-      } catch (error) {
-        console.warn("Could not extract filename from headers:", error);
+        if (!saveTo) return { status: true, data: { stream: result.data as StreamDownload["stream"], ...meta } };
+
+        try {
+          const bytes = await saveToFile(result.data, saveTo);
+          return { status: true, data: { path: saveTo, bytes, ...meta } };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return { status: false, data: { message: message || "Could not save the download", code: (error as { code?: string })?.code ?? "EDOWNLOAD" } };
+        }
+      });
+    }) as Download,
+
+    /** Add a middleware at the end of the chain. Returns a function that removes it */
+    use: (mw: Middleware): (() => void) => {
+      middleware.push(mw);
+      return () => {
+        const index = middleware.indexOf(mw);
+        if (index !== -1) middleware.splice(index, 1);
+      };
+    },
+
+    /** Drop cached GET entries by URL prefix (all of this client's entries when omitted) */
+    invalidate: async (prefix?: string): Promise<void> => {
+      if (!cacheStore) return;
+      const keys = (await safely("cache store", () => cacheStore.keys())) ?? [];
+      const own = `${scope} `;
+      for (const key of keys) {
+        if (!key.startsWith(own)) continue; // other scopes (e.g. extend() clients) keep their entries
+        if (prefix === undefined || matchesPrefix(key.slice(own.length), prefix)) await safely("cache store", () => cacheStore.delete(key));
       }
+    },
 
-      return {
-        status: true,
-        data: {
-          blob: result.data,
-          filename,
-        },
+    /** Request queue snapshot (pending, active, wait times) */
+    queueStats: (): QueueStats =>
+      clientOptions.limits
+        ? resolveRequestQueue(clientOptions.limits).stats()
+        : { pending: 0, active: 0, completed: 0, avgWaitMs: 0, maxWaitMs: 0, hosts: {} },
+
+    /** Circuit breaker snapshot by key */
+    circuits: () => (clientOptions.circuitBreaker ? resolveCircuitBreaker(clientOptions.circuitBreaker).snapshot() : {}),
+
+    /** Base URL health snapshot by host */
+    hosts: (): Record<string, HostHealth> =>
+      Array.isArray(clientOptions.baseURL) || typeof clientOptions.baseURL === "function" ? resolveHostTracker(clientOptions).snapshot() : {},
+
+    /** Derived client (e.g. another region or tenant). This client's middleware and the interceptors
+     * added on its `raw` apply, including ones added later; limits, circuit breaker, `failover` objects,
+     * the token refresh and the observer (on() listeners, metrics()) are shared. Cached entries are
+     * scoped by base URL and default headers. */
+    extend: ({ headers, middleware: extra = [], ...overrides }: ClientExtension = {}): ApiClient => {
+      const inherited: Middleware = (ctx, next) => runChain(ctx, next);
+      const options: ClientOptions = {
+        ...clientOptions,
+        ...overrides,
+        defaultHeaders: { ...clientOptions.defaultHeaders, ...overrides.defaultHeaders, ...headers },
+        middleware: [inherited, ...extra],
       };
+      sharedFor(options, "observer", () => observer);
+      const derived = withAuth(options);
+      forwardInterceptors(derived.raw, api, builtIn);
+      return derived;
+    },
+
+    /** Listen to lifecycle events ("*" = all types). Returns a function that removes the listener */
+    on: (type: RequestEventType | "*", listener: RequestEventListener): (() => void) => observer.on(type, listener),
+
+    /** Per-route metrics snapshot (shared by clients built from the same options object) */
+    metrics: (): MetricsSnapshot => observer.metrics(),
+
+    /** Clear collected metrics */
+    resetMetrics: (): void => observer.resetMetrics(),
+
+    /** Replay queued offline mutations now (joins a running flush) */
+    flush: (): Promise<FlushResult> =>
+      offlineQueue ? offlineQueue.flush() : Promise.resolve({ replayed: 0, conflicts: 0, failed: 0, remaining: 0 }),
+
+    /** Offline queue snapshot (pending mutations in replay order) */
+    offlineQueue: (): OfflineQueueState => (offlineQueue ? offlineQueue.state() : { pending: [], flushing: false }),
+
+    /** Drop one queued mutation by id, or all of them */
+    discardQueued: async (id?: string): Promise<void> => {
+      if (offlineQueue) await offlineQueue.discard(id);
+    },
+
+    /** Collect a call into the batch request of this tick. Resolves with its own normalized response */
+    batch: <T = unknown>(request: BatchRequest): Promise<ApiResponse<T>> => {
+      validateUrl(request.url);
+      const method = request.method.toLowerCase();
+
+      if (!clientOptions.batch) {
+        const options: BaseRequestOptions<T> = { params: request.params, headers: request.headers };
+        return dispatch<T>(createContext(method, request.url, options, request.body), (ctx) => send<T>(ctx));
+      }
+
+      const windowMs = clientOptions.batch.windowMs ?? 0;
+      return new Promise<ApiResponse<T>>((resolve) => {
+        batchQueue.push({ request: { ...request, method, id: String(batchQueue.length + 1) }, resolve: resolve as BatchEntry["resolve"] });
+        if (!batchTimer) batchTimer = setTimeout(flushBatch, windowMs);
+      });
     },
 
+    /** Open a real-time subscription. Returns a handle; the caller's `signal` also closes it */
+    subscribe,
+
+    /** GraphQL operation; the result is the `data` field */
+    graphql,
+
+    /** JSON-RPC call (result is the `result` field) or batch array (one result per call) */
+    rpc,
+
     /** Expose raw axios instance if needed (for advanced cases) */
 
     raw: api,
   };
+
+  clientDispatchers.set(client, dispatch);
+  return client;
 };
 
 /**
@@ -517,30 +4003,112 @@ export const apiClient = withAuth;
  * Resource Helper: sugar for CRUD-ish endpoints
  * ------------------------------------------------------------------ */
 
+interface ResourceOptions<R = unknown> {
+  schema?: Validator<R>; // item validator: list validates every item, get/create/update/patch the single item
+  pagination?: PaginationOptions; // strategy used by paginate()/listAll() (default: page/pageSize)
+  bulk?: BulkOptions; // bulkCreate/bulkUpdate/bulkRemove: native endpoint and concurrency
+}
+
+/** Paging styles supported by paginate()/listAll() */
+export type PaginationStrategy =
+  | { type: "offset"; limit?: number; offsetParam?: string; limitParam?: string }
+  | { type: "page"; pageSize?: number; firstPage?: number; pageParam?: string; pageSizeParam?: string }
+  | { type: "cursor"; limit?: number; cursorParam?: string; limitParam?: string; nextCursor?: (body: unknown) => string | null | undefined }
+  | { type: "link" }; // RFC 5988 Link header, rel="next"
+
+type PaginationOptions = PaginationStrategy & {
+  items?: (body: unknown) => unknown[]; // extract the page items from the body
+};
+
+interface PaginateOptions extends Omit<BaseRequestOptions, "schema" | "cache" | "dedupe" | "idempotencyKey"> {
+  pagination?: PaginationOptions; // override the resource strategy
+  maxItems?: number; // stop after this many items
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_MAX_ITEMS = 10000; // listAll() cap
+
+// Default items extractor: array body, or { items | data | results: [...] } (helper)
+const defaultPageItems = (body: unknown): unknown[] => {
+  if (Array.isArray(body)) return body;
+  const record = (body ?? {}) as Record<string, unknown>;
+  const items = record.items ?? record.data ?? record.results;
+  return Array.isArray(items) ? items : [];
+};
+
+// Default cursor extractor: { nextCursor | next_cursor | next } (helper)
+const defaultNextCursor = (body: unknown): string | undefined => {
+  const record = (body ?? {}) as Record<string, unknown>;
+  const next = record.nextCursor ?? record.next_cursor ?? record.next;
+  return typeof next === "string" || typeof next === "number" ? String(next) : undefined;
+};
+
+/************************************************************************************
+ * ##: Parse an RFC 5988 Link header into { rel: url }
+ * e.g. `<https://api/x?page=2>; rel="next", <https://api/x?page=9>; rel="last"`
+ * @param {string} header - Link header value
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const parseLinkHeader = (header: unknown): Record<string, string> => {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+  String(header)
+    .split(/,(?=\s*<)/)
+    .forEach((part) => {
+      const match = part.match(/<([^>]*)>(.*)/);
+      if (!match) return;
+      const rel = match[2].match(/rel\s*=\s*"?([^";]+)"?/i);
+      if (rel) rel[1].split(/\s+/).forEach((name) => (links[name.toLowerCase()] = match[1].trim()));
+    });
+  return links;
+};
+
 /************************************************************************************
  * ##: Resource Helper: sugar for CRUD-ish endpoints
  * @param {string} baseUrl - Base URL for the resource
  * @param {Object} clientOptions - Axios client options (withAuth options)
+ * @param {Object} resourceOptions - Resource options (item schema, pagination)
  * History:
  * 16-08-2025: Created
  * 21-08-2025: Improved validation and type safety
  * 21-10-2025: Added alias "get"
+ * 19-10-2026: Mutations invalidate cached entries of the resource
+ * 19-10-2026: Item schema validation (list/get/create/update/patch)
+ * 19-10-2026: paginate() and listAll() with offset/page/cursor/link strategies
+ * 19-10-2026: use() and middleware on pages
+ * 19-10-2026: bulkCreate / bulkUpdate / bulkRemove
  ************************************************************************************/
-export const resource = (
+export const resource = <R = unknown>(
   baseUrl: string,
-  clientOptions: ClientOptions = {}
+  clientOptions: ClientOptions = {},
+  resourceOptions: ResourceOptions<R> = {}
 ): {
-  list: <T = unknown>(query?: Record<string, unknown>, opts?: BaseRequestOptions) => Promise<ApiResponse<T[]>>;
-  get: <T = unknown>(id: string | number, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  create: <T = unknown>(payload: unknown, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  update: <T = unknown>(id: string | number, payload: unknown, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  patch: <T = unknown>(id: string | number, payload: unknown, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  remove: <T = unknown>(id: string | number, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
-  action: <T = unknown>(subpath: string, payload?: unknown, opts?: BaseRequestOptions) => Promise<ApiResponse<T>>;
+  list: <T = R>(query?: Record<string, unknown>, opts?: BaseRequestOptions<T[]>) => Promise<ApiResponse<T[]>>;
+  get: <T = R>(id: string | number, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  create: <T = R>(payload: unknown, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  update: <T = R>(id: string | number, payload: unknown, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  patch: <T = R>(id: string | number, payload: unknown, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  remove: <T = unknown>(id: string | number, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  action: <T = unknown>(subpath: string, payload?: unknown, opts?: BaseRequestOptions<T>) => Promise<ApiResponse<T>>;
+  /** Async iterator over pages; an error (or abort) is yielded as the last value */
+  paginate: <T = R>(query?: Record<string, unknown>, opts?: PaginateOptions) => AsyncGenerator<ApiResponse<T[]>, void, undefined>;
+  /** All pages concatenated, capped at maxItems (default 10000) */
+  listAll: <T = R>(query?: Record<string, unknown>, opts?: PaginateOptions) => Promise<ApiResponse<T[]>>;
+  /** Create many items: native bulk endpoint when configured, otherwise parallel create() calls */
+  bulkCreate: <T = R>(payloads: unknown[], opts?: BaseRequestOptions<T>) => Promise<BulkResult<T>>;
+  /** Update (PUT) many items */
+  bulkUpdate: <T = R>(items: { id: string | number; payload: unknown }[], opts?: BaseRequestOptions<T>) => Promise<BulkResult<T>>;
+  /** Remove many items */
+  bulkRemove: <T = unknown>(ids: (string | number)[], opts?: BaseRequestOptions<T>) => Promise<BulkResult<T>>;
+  /** Add a middleware to this resource's client; returns a remover */
+  use: (mw: Middleware) => () => void;
 } => {
   validateUrl(baseUrl);
 
   const http = withAuth(clientOptions);
+  const dispatch = clientDispatchers.get(http)!;
+  const observer = resolveObserver(clientOptions);
 
   const validateId = (id: string | number): void => {
     if (id === null || id === undefined || id === "") {
@@ -554,39 +4122,347 @@ export const resource = (
     }
   };
 
+  // Item schema (per-call `schema` wins). Typed as T: the caller's T defaults to R
+  const itemSchema = <T>(): Validator<T> | undefined => resourceOptions.schema as Validator<T> | undefined;
+  const listSchema = <T>(): Validator<T[]> | undefined => (resourceOptions.schema ? arrayOf(itemSchema<T>()!) : undefined);
+
+  // Successful mutations drop this resource's cached entries (list and items)
+  const invalidating = async <T>(call: Promise<ApiResponse<T>>): Promise<ApiResponse<T>> => {
+    const result = await call;
+    if (result.status) await http.invalidate(baseUrl);
+    return result;
+  };
+
+  /************************************************************************************
+   * ##: Bulk operation shared by bulkCreate/bulkUpdate/bulkRemove
+   * Native: POST bulk.endpoint { operation, items } in chunks of chunkSize; the response holds one
+   * entry per item, in order ({status,data} envelopes, {status,body} entries or raw items).
+   * A failed chunk request fails all of its items.
+   * Fallback: one call per item, `concurrency` at a time.
+   * The resource cache is invalidated once, when at least one item succeeded.
+   * History:
+   * 19-10-2026: Created
+   ************************************************************************************/
+  const bulk = async <T>(
+    operation: "create" | "update" | "remove",
+    items: unknown[],
+    native: (item: unknown) => unknown,
+    single: (item: unknown) => Promise<ApiResponse<T>>,
+    opts: BaseRequestOptions<T>
+  ): Promise<BulkResult<T>> => {
+    const { endpoint, chunkSize = DEFAULT_BULK_CHUNK_SIZE, concurrency = DEFAULT_BULK_CONCURRENCY } = resourceOptions.bulk ?? {};
+    let results: ApiResponse<T>[];
+
+    if (endpoint) {
+      const chunks: unknown[][] = [];
+      for (let start = 0; start < items.length; start += Math.max(1, chunkSize)) chunks.push(items.slice(start, start + Math.max(1, chunkSize)));
+      const { schema, ...callOptions } = opts;
+      const validator = operation === "remove" ? undefined : schema ?? itemSchema<T>();
+
+      const chunkResults = await mapLimit(chunks, concurrency, async (chunk) => {
+        const result = await http.post<unknown>(endpoint, { operation, items: chunk.map(native) }, callOptions);
+        if (!result.status) return chunk.map((): ApiResponse<T> => result);
+        const entries = batchEntries(result.data) ?? [];
+        return chunk.map((_item, index) => (index < entries.length ? applySchema(normalizeBulkItem<T>(entries[index]), validator) : missingPart()));
+      });
+      results = ([] as ApiResponse<T>[]).concat(...chunkResults);
+    } else {
+      results = await mapLimit(items, concurrency, single);
+    }
+
+    const outcome = summarize(results);
+    if (outcome.summary.succeeded) await http.invalidate(baseUrl);
+    return outcome;
+  };
+
+  /************************************************************************************
+   * ##: Page iterator shared by paginate() and listAll()
+   * Pages are plain GETs through middleware and run() (retries, hooks) but skip cache and dedupe.
+   * Stops on the last page, at maxItems, or by yielding the ApiErrorResponse.
+   * History:
+   * 19-10-2026: Created
+   ************************************************************************************/
+  const pages = async function* <T>(query: Record<string, unknown> = {}, opts: PaginateOptions = {}): AsyncGenerator<ApiResponse<T[]>, void, undefined> {
+    const { pagination = resourceOptions.pagination ?? { type: "page" }, maxItems = Infinity, params, headers, signal } = opts;
+    const extract = pagination.items ?? defaultPageItems;
+    const schema = listSchema<T>();
+
+    let url: string = baseUrl;
+    let index = 0;
+    let cursor: string | undefined;
+    let count = 0;
+
+    while (count < maxItems) {
+      if (signal?.aborted) {
+        yield canceledResponse();
+        return;
+      }
+
+      // Paging params for this request (link strategy: the next URL already carries them)
+      let pageParams: Record<string, unknown> | undefined = { ...params, ...query };
+      if (pagination.type === "offset") {
+        const limit = pagination.limit ?? DEFAULT_PAGE_SIZE;
+        pageParams[pagination.offsetParam ?? "offset"] = index * limit;
+        pageParams[pagination.limitParam ?? "limit"] = limit;
+      } else if (pagination.type === "page") {
+        pageParams[pagination.pageParam ?? "page"] = (pagination.firstPage ?? 1) + index;
+        pageParams[pagination.pageSizeParam ?? "pageSize"] = pagination.pageSize ?? DEFAULT_PAGE_SIZE;
+      } else if (pagination.type === "cursor") {
+        if (cursor !== undefined) pageParams[pagination.cursorParam ?? "cursor"] = cursor;
+        if (pagination.limit) pageParams[pagination.limitParam ?? "limit"] = pagination.limit;
+      } else if (index > 0) {
+        pageParams = undefined;
+      }
+
+      // Each page runs through the client's middleware chain
+      let response: AxiosResponse<unknown> | undefined;
+      const context: RequestContext = { requestId: generateId(), method: "get", url, params: pageParams, headers: { ...headers }, options: opts, meta: {} };
+      const result = await dispatch<unknown>(context, (ctx) => {
+        const { signal, timeout, deadlineMs, responseType, retry, priority } = ctx.options;
+        const call = observer.track(ctx);
+        return run<unknown>(
+          async (attempt) => {
+            const config: CallConfig = { params: ctx.params, headers: ctx.headers, ...attempt, responseType, priority, _call: call };
+            const res = await http.raw.get(ctx.url, config);
+            response = res;
+            return res;
+          },
+          {
+            retry: { ...clientOptions.retry, ...retry },
+            call,
+            signal,
+            timeout: timeout ?? clientOptions.timeout,
+            deadlineMs: deadlineMs ?? clientOptions.deadlineMs,
+          }
+        );
+      });
+      if (!result.status) {
+        yield result;
+        return;
+      }
+
+      const raw = extract(result.data);
+      const page = applySchema<T[]>({ status: true, data: raw as T[] }, schema);
+      if (!page.status) {
+        yield page;
+        return;
+      }
+
+      const items = page.data.slice(0, Math.max(0, maxItems - count));
+      count += items.length;
+      if (items.length) yield { status: true, data: items };
+
+      // Next page?
+      if (pagination.type === "offset" || pagination.type === "page") {
+        const size = pagination.type === "offset" ? pagination.limit ?? DEFAULT_PAGE_SIZE : pagination.pageSize ?? DEFAULT_PAGE_SIZE;
+        if (raw.length < size) return;
+      } else if (pagination.type === "cursor") {
+        cursor = (pagination.nextCursor ?? defaultNextCursor)(result.data) ?? undefined;
+        if (!cursor) return;
+      } else {
+        const next = parseLinkHeader(response?.headers?.["link"]).next;
+        if (!next) return;
+        url = next;
+      }
+      index += 1;
+    }
+  };
+
   return {
-    list: <T = unknown>(query: Record<string, unknown> = {}, opts: BaseRequestOptions = {}) =>
-      http.getMany<T>(baseUrl, { ...opts, params: { ...opts.params, ...query } }),
+    list: <T = R>(query: Record<string, unknown> = {}, opts: BaseRequestOptions<T[]> = {}) =>
+      http.getMany<T>(baseUrl, { schema: listSchema<T>(), ...opts, params: { ...opts.params, ...query } }),
 
     // Alias: get (auto-detects array/object)
-    get: <T = unknown>(id: string | number, opts: BaseRequestOptions = {}) => {
+    get: <T = R>(id: string | number, opts: BaseRequestOptions<T> = {}) => {
       validateId(id);
-      return http.getOne<T>(`${baseUrl}/${id}`, opts);
+      return http.getOne<T>(`${baseUrl}/${id}`, { schema: itemSchema<T>(), ...opts });
     },
 
-    create: <T = unknown>(payload: unknown, opts: BaseRequestOptions = {}) => http.post<T>(baseUrl, payload, opts),
+    create: <T = R>(payload: unknown, opts: BaseRequestOptions<T> = {}) => invalidating(http.post<T>(baseUrl, payload, { schema: itemSchema<T>(), ...opts })),
 
-    update: <T = unknown>(id: string | number, payload: unknown, opts: BaseRequestOptions = {}) => {
+    update: <T = R>(id: string | number, payload: unknown, opts: BaseRequestOptions<T> = {}) => {
       validateId(id);
-      return http.put<T>(`${baseUrl}/${id}`, payload, opts);
+      return invalidating(http.put<T>(`${baseUrl}/${id}`, payload, { schema: itemSchema<T>(), ...opts }));
     },
 
-    patch: <T = unknown>(id: string | number, payload: unknown, opts: BaseRequestOptions = {}) => {
+    patch: <T = R>(id: string | number, payload: unknown, opts: BaseRequestOptions<T> = {}) => {
       validateId(id);
-      return http.patch<T>(`${baseUrl}/${id}`, payload, opts);
+      return invalidating(http.patch<T>(`${baseUrl}/${id}`, payload, { schema: itemSchema<T>(), ...opts }));
     },
 
-    remove: <T = unknown>(id: string | number, opts: BaseRequestOptions = {}) => {
+    remove: <T = unknown>(id: string | number, opts: BaseRequestOptions<T> = {}) => {
       validateId(id);
-      return http.remove<T>(`${baseUrl}/${id}`, opts);
+      return invalidating(http.remove<T>(`${baseUrl}/${id}`, opts));
     },
 
-    action: <T = unknown>(subpath: string, payload?: unknown, opts: BaseRequestOptions = {}) => {
+    action: <T = unknown>(subpath: string, payload?: unknown, opts: BaseRequestOptions<T> = {}) => {
       validateSubpath(subpath);
       const method = payload !== undefined ? "post" : "get";
       const url = `${baseUrl}/${subpath}`;
 
-      return method === "post" ? http.post<T>(url, payload, opts) : http.getOne<T>(url, opts);
+      return method === "post" ? invalidating(http.post<T>(url, payload, opts)) : http.getOne<T>(url, opts);
     },
+
+    paginate: <T = R>(query: Record<string, unknown> = {}, opts: PaginateOptions = {}) => pages<T>(query, opts),
+
+    listAll: async <T = R>(query: Record<string, unknown> = {}, opts: PaginateOptions = {}): Promise<ApiResponse<T[]>> => {
+      const all: T[] = [];
+      for await (const page of pages<T>(query, { maxItems: DEFAULT_MAX_ITEMS, ...opts })) {
+        if (!page.status) return page;
+        all.push(...page.data);
+      }
+      return { status: true, data: all };
+    },
+
+    bulkCreate: <T = R>(payloads: unknown[], opts: BaseRequestOptions<T> = {}) =>
+      bulk<T>(
+        "create",
+        payloads,
+        (payload) => payload,
+        (payload) => http.post<T>(baseUrl, payload, { schema: itemSchema<T>(), ...opts }),
+        opts
+      ),
+
+    bulkUpdate: <T = R>(items: { id: string | number; payload: unknown }[], opts: BaseRequestOptions<T> = {}) => {
+      items.forEach((item) => validateId(item.id));
+      return bulk<T>(
+        "update",
+        items,
+        (item) => ({ id: (item as { id: string | number }).id, data: (item as { payload: unknown }).payload }),
+        (item) => {
+          const { id, payload } = item as { id: string | number; payload: unknown };
+          return http.put<T>(`${baseUrl}/${id}`, payload, { schema: itemSchema<T>(), ...opts });
+        },
+        opts
+      );
+    },
+
+    bulkRemove: <T = unknown>(ids: (string | number)[], opts: BaseRequestOptions<T> = {}) => {
+      ids.forEach(validateId);
+      return bulk<T>(
+        "remove",
+        ids,
+        (id) => id,
+        (id) => http.remove<T>(`${baseUrl}/${id as string | number}`, opts),
+        opts
+      );
+    },
+
+    use: (mw: Middleware) => http.use(mw),
+  };
+};
+
+/** --------------------------------------------------------------------
+ * Typed API contracts: define endpoints once, get a typed client
+ * ------------------------------------------------------------------ */
+
+declare const typeMarker: unique symbol;
+
+/** Compile-time only type carrier (see typed()) */
+export type TypeOf<T> = { readonly [typeMarker]?: T };
+
+/** Declares a type in an endpoint definition: `response: typed<Order>()` (no runtime value) */
+export const typed = <T>(): TypeOf<T> => ({}) as TypeOf<T>;
+
+type EndpointMethod = "get" | "post" | "put" | "patch" | "delete";
+
+/** One endpoint: method, path template (`/orders/:id`) and its types */
+export interface EndpointDefinition {
+  method: EndpointMethod;
+  path: string; // `:name` segments are path params (URL-encoded)
+  response?: TypeOf<unknown>; // success payload type
+  body?: TypeOf<unknown>; // request body type (post/put/patch)
+  query?: TypeOf<unknown>; // query params type
+  schema?: Validator<unknown>; // runtime validation of the response (also types it when `response` is omitted)
+  options?: Omit<BaseRequestOptions<unknown>, "params" | "schema">; // per-endpoint defaults (retry, timeout, cache, ...)
+}
+
+// "/orders/:id/items/:itemId" -> "id" | "itemId"
+type PathParamNames<P extends string> = P extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | PathParamNames<`/${Rest}`>
+  : P extends `${string}:${infer Name}`
+    ? Name
+    : never;
+
+/** Path params of a template: `PathParams<"/orders/:id">` = `{ id: string | number }` */
+export type PathParams<P extends string> = { [K in PathParamNames<P>]: string | number };
+
+type EndpointResponse<D> = D extends { response: TypeOf<infer R> } ? R : D extends { schema: Validator<infer R> } ? R : unknown;
+
+/** Arguments of an endpoint call. Required keys follow the definition (params in the path, body) */
+export type EndpointArgs<D extends EndpointDefinition> = ([PathParamNames<D["path"]>] extends [never]
+  ? { params?: Record<string, never> }
+  : { params: PathParams<D["path"]> }) &
+  (D extends { body: TypeOf<infer B> } ? { body: B } : { body?: undefined }) &
+  (D extends { query: TypeOf<infer Q> } ? { query?: Q } : { query?: Record<string, unknown> }) & {
+    options?: Omit<BaseRequestOptions<EndpointResponse<D>>, "params">;
+  };
+
+type EndpointCall<D extends EndpointDefinition> = {} extends EndpointArgs<D>
+  ? (args?: EndpointArgs<D>) => Promise<ApiResponse<EndpointResponse<D>>>
+  : (args: EndpointArgs<D>) => Promise<ApiResponse<EndpointResponse<D>>>;
+
+/** Client produced by defineApi(): one typed method per endpoint */
+export type ApiContract<E extends Record<string, EndpointDefinition>> = { [K in keyof E]: EndpointCall<E[K]> };
+
+/************************************************************************************
+ * ##: Fill a path template with URL-encoded params
+ * @param {string} template - Path with `:name` segments
+ * @param {Object} params - Values by name
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+const fillPath = (template: string, params: Record<string, unknown> = {}): string =>
+  template.replace(/:([A-Za-z_]\w*)/g, (_match, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null || value === "") {
+      throw new Error(`Path param "${name}" must be provided for ${template}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+
+/************************************************************************************
+ * ##: Typed API contract
+ * Declares endpoints once; every method is typed from its definition and runs through
+ * the withAuth client (middleware, retries, cache, normalizer), so it never throws
+ * on request errors and returns ApiResponse<Res>.
+ * A missing path param is a compile-time error (and throws at runtime, like an invalid URL).
+ * @param {Object} endpoints - Endpoint definitions by method name
+ * @param {Object} clientOptions - Axios client options (withAuth options)
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+export const defineApi = <const E extends Record<string, EndpointDefinition>>(endpoints: E, clientOptions: ClientOptions = {}): ApiContract<E> => {
+  const http = withAuth(clientOptions);
+
+  const call = (definition: EndpointDefinition) => (args: { params?: Record<string, unknown>; body?: unknown; query?: Record<string, unknown>; options?: BaseRequestOptions<unknown> } = {}) => {
+    const url = fillPath(definition.path, args.params);
+    const options: BaseRequestOptions<unknown> = {
+      ...definition.options,
+      ...args.options,
+      params: args.query,
+      schema: args.options?.schema ?? definition.schema,
+    };
+
+    switch (definition.method) {
+      case "get":
+        return http.getOne(url, options);
+      case "post":
+        return http.post(url, args.body, options);
+      case "put":
+        return http.put(url, args.body, options);
+      case "patch":
+        return http.patch(url, args.body, options);
+      case "delete":
+        return http.remove(url, options);
+      default:
+        throw new Error(`Unsupported method "${String(definition.method)}" for ${definition.path}`);
+    }
   };
+
+  const client = {} as Record<string, unknown>;
+  Object.keys(endpoints).forEach((name) => {
+    client[name] = call(endpoints[name]);
+  });
+  return client as ApiContract<E>;
 };
@@ -0,0 +1,324 @@
+// mock.ts
+// Mock transport and request recorder for testing apps built on withAuth/resource.
+// Plugs in as an axios adapter, so retries, hooks, cache and every other client feature
+// run exactly as in production. Works offline in Node (no network, no axios stubbing).
+
+import { AxiosError, AxiosHeaders, CanceledError } from "axios";
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { withAuth, resource } from "./index.js";
+
+type ClientOptions = NonNullable<Parameters<typeof withAuth>[0]>;
+type ResourceOptions<R> = NonNullable<Parameters<typeof resource<R>>[2]>;
+
+/** Request as seen by mock routes and the recorder */
+export interface MockRequest {
+  method: string; // upper case
+  url: string; // url as passed to the client
+  path: string; // pathname only
+  query: Record<string, string | string[]>; // url query + params
+  params: Record<string, string>; // path params from "/users/:id"
+  headers: Record<string, string>;
+  body: unknown; // parsed JSON when possible
+  at: number;
+}
+
+/** Canned reply. `networkError` / `timeout` simulate transport failures */
+export interface MockReply {
+  status?: number; // default 200
+  data?: unknown;
+  headers?: Record<string, string>;
+  delayMs?: number;
+  networkError?: boolean;
+  timeout?: boolean;
+}
+
+type MockResponder = MockReply | ((request: MockRequest) => MockReply | Promise<MockReply>);
+
+interface MockMatch {
+  query?: Record<string, unknown> | ((query: MockRequest["query"]) => boolean); // subset match or predicate
+  body?: unknown; // subset match (objects) / equality, or predicate function
+}
+
+interface MockRoute {
+  method: string; // "*" = any
+  path: string | RegExp;
+  match: MockMatch;
+  once: MockResponder[]; // sequential replies, consumed first
+  always?: MockResponder;
+}
+
+/** Fluent route handle returned by mock.on() */
+export interface MockHandler {
+  reply: (statusOrResponder: number | MockResponder, data?: unknown, options?: Omit<MockReply, "status" | "data">) => MockHandler;
+  replyOnce: (statusOrResponder: number | MockResponder, data?: unknown, options?: Omit<MockReply, "status" | "data">) => MockHandler;
+  networkError: () => MockHandler;
+  networkErrorOnce: () => MockHandler;
+  timeout: () => MockHandler;
+  timeoutOnce: () => MockHandler;
+}
+
+interface CallFilter {
+  times?: number; // exact number of matching calls
+  query?: Record<string, unknown>;
+  body?: unknown;
+}
+
+export interface MockTransport {
+  adapter: AxiosAdapter;
+  on: (method: string, path: string | RegExp, match?: MockMatch) => MockHandler;
+  calls: MockRequest[];
+  callsTo: (method: string, path: string | RegExp, filter?: Omit<CallFilter, "times">) => MockRequest[];
+  /** Throws when the matching calls do not satisfy the filter (default: called at least once) */
+  assertCalled: (method: string, path: string | RegExp, filter?: CallFilter) => void;
+  assertNotCalled: (method: string, path: string | RegExp) => void;
+  reset: () => void; // clear routes and calls
+  resetCalls: () => void;
+}
+
+// Path pattern "/users/:id" or "/files/*" -> RegExp with named groups (helper)
+const compilePath = (pattern: string): { regex: RegExp; names: string[] } => {
+  const names: string[] = [];
+  const source = pattern
+    .replace(/\/+$/, "")
+    .split("/")
+    .map((segment) => {
+      if (segment === "*") return ".*";
+      if (segment.startsWith(":")) {
+        names.push(segment.slice(1));
+        return "([^/]+)";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+  return { regex: new RegExp(`^${source}/?$`), names };
+};
+
+const matchPath = (pattern: string | RegExp, path: string): Record<string, string> | undefined => {
+  if (pattern instanceof RegExp) {
+    const match = path.match(pattern);
+    return match ? { ...(match.groups ?? {}) } : undefined;
+  }
+  const { regex, names } = compilePath(pattern);
+  const match = path.match(regex);
+  if (!match) return undefined;
+  const params: Record<string, string> = {};
+  names.forEach((name, index) => (params[name] = decodeURIComponent(match[index + 1])));
+  return params;
+};
+
+// Deep subset match: every key of expected must match in actual; arrays and primitives compare fully (helper)
+const matchesSubset = (actual: unknown, expected: unknown): boolean => {
+  if (typeof expected === "function") return !!(expected as (value: unknown) => boolean)(actual);
+  if (expected === null || typeof expected !== "object") {
+    return actual === expected || (typeof actual === "string" && typeof expected !== "object" && actual === String(expected));
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length && expected.every((value, index) => matchesSubset(actual[index], value));
+  }
+  if (!actual || typeof actual !== "object") return false;
+  return Object.keys(expected).every((key) => matchesSubset((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key]));
+};
+
+// Build the recorded request from the axios config (helper)
+const toMockRequest = (config: InternalAxiosRequestConfig): MockRequest => {
+  const url = config.url ?? "";
+  const parsed = new URL(url, "http://mock.local");
+  const query: MockRequest["query"] = {};
+  parsed.searchParams.forEach((value, key) => {
+    const current = query[key];
+    query[key] = current === undefined ? value : Array.isArray(current) ? [...current, value] : [current, value];
+  });
+  Object.entries((config.params ?? {}) as Record<string, unknown>).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    query[key] = Array.isArray(value) ? value.map(String) : typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+
+  const headers: Record<string, string> = {};
+  Object.entries(AxiosHeaders.from(config.headers as AxiosHeaders).toJSON()).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) headers[key.toLowerCase()] = Array.isArray(value) ? value.join(", ") : String(value);
+  });
+
+  let body: unknown = config.data;
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // keep raw string
+    }
+  }
+
+  return { method: (config.method ?? "get").toUpperCase(), url, path: parsed.pathname, query, params: {}, headers, body, at: Date.now() };
+};
+
+// Wait that rejects when the request signal aborts (helper)
+const wait = (ms: number, config: InternalAxiosRequestConfig): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const signal = config.signal as AbortSignal | undefined;
+    if (signal?.aborted) return reject(new CanceledError(undefined, undefined, config));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener?.("abort", onAbort, { once: true });
+  });
+
+/************************************************************************************
+ * ##: Mock transport (axios adapter) with route matching and a request recorder
+ * Routes match on method, path pattern ("/users/:id", "*", RegExp), query and body.
+ * Replies can be canned, functions, delayed, network errors or timeouts; replyOnce
+ * queues sequential replies (e.g. 502, 502, 200 to test retries).
+ * Unmatched requests get a 404 { message: "No mock route for METHOD /path" }.
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+export const createMockTransport = (): MockTransport => {
+  let routes: MockRoute[] = [];
+  const calls: MockRequest[] = [];
+
+  const toResponder = (statusOrResponder: number | MockResponder, data?: unknown, options: Omit<MockReply, "status" | "data"> = {}): MockResponder =>
+    typeof statusOrResponder === "number" ? { ...options, status: statusOrResponder, data } : statusOrResponder;
+
+  const findRoute = (request: MockRequest): { route: MockRoute; params: Record<string, string> } | undefined => {
+    // Latest registration wins, so tests can override earlier routes
+    for (let i = routes.length - 1; i >= 0; i -= 1) {
+      const route = routes[i];
+      if (route.method !== "*" && route.method !== request.method) continue;
+      const params = matchPath(route.path, request.path);
+      if (!params) continue;
+      const { query, body } = route.match;
+      if (query && !(typeof query === "function" ? query(request.query) : matchesSubset(request.query, query))) continue;
+      if (body !== undefined && !matchesSubset(request.body, body)) continue;
+      if (!route.once.length && !route.always) continue;
+      return { route, params };
+    }
+    return undefined;
+  };
+
+  const adapter: AxiosAdapter = async (config) => {
+    const request = toMockRequest(config);
+    const found = findRoute(request);
+    if (found) request.params = found.params;
+    calls.push(request);
+
+    const responder: MockResponder = found
+      ? found.route.once.shift() ?? found.route.always!
+      : { status: 404, data: { message: `No mock route for ${request.method} ${request.path}` } };
+    const reply = typeof responder === "function" ? await responder(request) : responder;
+
+    // Simulated latency, cut short by the axios timeout like a real transport
+    const timeoutMs = config.timeout || 0;
+    const latency = reply.delayMs ?? 0;
+    if (reply.timeout || (timeoutMs && latency > timeoutMs)) {
+      await wait(timeoutMs || latency, config);
+      throw new AxiosError(`timeout of ${timeoutMs}ms exceeded`, AxiosError.ECONNABORTED, config);
+    }
+    if (latency) await wait(latency, config);
+    if (reply.networkError) throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config);
+
+    const status = reply.status ?? 200;
+    const response: AxiosResponse = {
+      data: reply.data,
+      status,
+      statusText: String(status),
+      headers: AxiosHeaders.from(Object.fromEntries(Object.entries(reply.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value]))),
+      config,
+      request: { mock: true },
+    };
+
+    if (!config.validateStatus || config.validateStatus(status)) return response;
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  };
+
+  const on = (method: string, path: string | RegExp, match: MockMatch = {}): MockHandler => {
+    const route: MockRoute = { method: method.toUpperCase(), path, match, once: [] };
+    routes.push(route);
+
+    const handler: MockHandler = {
+      reply: (statusOrResponder, data, options) => {
+        route.always = toResponder(statusOrResponder, data, options);
+        return handler;
+      },
+      replyOnce: (statusOrResponder, data, options) => {
+        route.once.push(toResponder(statusOrResponder, data, options));
+        return handler;
+      },
+      networkError: () => handler.reply({ networkError: true }),
+      networkErrorOnce: () => handler.replyOnce({ networkError: true }),
+      timeout: () => handler.reply({ timeout: true }),
+      timeoutOnce: () => handler.replyOnce({ timeout: true }),
+    };
+    return handler;
+  };
+
+  const callsTo = (method: string, path: string | RegExp, filter: Omit<CallFilter, "times"> = {}): MockRequest[] =>
+    calls.filter(
+      (call) =>
+        (method === "*" || call.method === method.toUpperCase()) &&
+        !!matchPath(path, call.path) &&
+        (filter.query === undefined || matchesSubset(call.query, filter.query)) &&
+        (filter.body === undefined || matchesSubset(call.body, filter.body))
+    );
+
+  const assertCalled = (method: string, path: string | RegExp, filter: CallFilter = {}): void => {
+    const matching = callsTo(method, path, filter);
+    const expected = filter.times;
+    if (expected === undefined ? matching.length > 0 : matching.length === expected) return;
+
+    const described = `${method.toUpperCase()} ${String(path)}${filter.body !== undefined ? ` with body ${JSON.stringify(filter.body)}` : ""}`;
+    const recorded = calls.map((call) => `  ${call.method} ${call.path} ${call.body !== undefined ? JSON.stringify(call.body) : ""}`).join("\n");
+    throw new Error(
+      `Expected ${described} to be called ${expected === undefined ? "at least once" : `${expected} time(s)`}, but it was called ${matching.length} time(s).\nRecorded calls:\n${recorded || "  (none)"}`
+    );
+  };
+
+  return {
+    adapter,
+    on,
+    calls,
+    callsTo,
+    assertCalled,
+    assertNotCalled: (method, path) => assertCalled(method, path, { times: 0 }),
+    reset: () => {
+      routes = [];
+      calls.length = 0;
+    },
+    resetCalls: () => {
+      calls.length = 0;
+    },
+  };
+};
+
+/************************************************************************************
+ * ##: Mock client: withAuth wired to a mock transport
+ * Returns the client, the transport (routes + recorder) and a resource() factory
+ * sharing the same options (so cache/limits/breakers are shared as in production).
+ * @param {Object} clientOptions - withAuth options (adapter is replaced)
+ * @param {Object} transport - Existing mock transport (optional)
+ * History:
+ * 19-10-2026: Created
+ ************************************************************************************/
+export const createMockClient = (
+  clientOptions: ClientOptions = {},
+  transport: MockTransport = createMockTransport()
+): {
+  client: ReturnType<typeof withAuth>;
+  mock: MockTransport;
+  resource: <R = unknown>(baseUrl: string, resourceOptions?: ResourceOptions<R>) => ReturnType<typeof resource<R>>;
+} => {
+  const options: ClientOptions = { ...clientOptions, adapter: transport.adapter };
+  return {
+    client: withAuth(options),
+    mock: transport,
+    resource: <R = unknown>(baseUrl: string, resourceOptions: ResourceOptions<R> = {}) => resource<R>(baseUrl, options, resourceOptions),
+  };
+};
@@ -0,0 +1,354 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMockClient, createMockTransport } from "../src/mock.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("token refresh", () => {
+  it("refreshes once for concurrent 401s and replays every call", async () => {
+    let token = "old";
+    let refreshes = 0;
+    const { client, mock } = createMockClient({
+      getToken: () => token,
+      refreshToken: async () => {
+        refreshes += 1;
+        await sleep(10);
+        token = "new";
+        return token;
+      },
+    });
+    mock.on("GET", "/me").reply((req) => (req.headers.authorization === "Bearer new" ? { data: { id: 1 } } : { status: 401 }));
+
+    const results = await Promise.all([client.getOne("/me"), client.getOne("/me"), client.getOne("/me")]);
+
+    expect(results.every((result) => result.status)).toBe(true);
+    expect(refreshes).toBe(1);
+  });
+
+  it("replays a late 401 with the refreshed token instead of refreshing again", async () => {
+    let token = "old";
+    let refreshes = 0;
+    const { client, mock } = createMockClient({
+      getToken: () => token,
+      refreshToken: async () => {
+        refreshes += 1;
+        token = `new-${refreshes}`;
+        return token;
+      },
+    });
+    mock.on("GET", "/fast").reply((req) => (req.headers.authorization === "Bearer old" ? { status: 401 } : { data: "fast" }));
+    mock.on("GET", "/slow").reply((req) => (req.headers.authorization === "Bearer old" ? { status: 401, delayMs: 30 } : { data: "slow" }));
+
+    const [fast, slow] = await Promise.all([client.getOne("/fast"), client.getOne("/slow")]);
+
+    expect([fast.data, slow.data]).toEqual(["fast", "slow"]);
+    expect(refreshes).toBe(1);
+  });
+});
+
+describe("retry policy", () => {
+  it("retries listed statuses and waits for Retry-After (capped by maxRetryAfterMs)", async () => {
+    const delays: number[] = [];
+    const { client, mock } = createMockClient({
+      retry: { retries: 2, baseDelayMs: 1, jitter: false, maxRetryAfterMs: 50, onAttempt: (info) => delays.push(info.delayMs) },
+    });
+    mock.on("GET", "/busy").replyOnce(503, {}, { headers: { "Retry-After": "1" } }).reply(200, { ok: true });
+
+    const startedAt = Date.now();
+    const result = await client.getOne("/busy");
+
+    expect(result).toEqual({ status: true, data: { ok: true } });
+    expect(delays).toEqual([50]);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    mock.assertCalled("GET", "/busy", { times: 2 });
+  });
+
+  it("does not retry POST or statuses outside retryOn", async () => {
+    const { client, mock } = createMockClient({ retry: { retries: 3, baseDelayMs: 1, jitter: false } });
+    mock.on("POST", "/orders").reply(503);
+    mock.on("GET", "/missing").reply(404);
+
+    const created = await client.post("/orders", {});
+    const missing = await client.getOne("/missing");
+
+    expect(created.status).toBe(false);
+    expect(missing.status).toBe(false);
+    if (!missing.status) expect(missing.data.attempts).toBe(1);
+    mock.assertCalled("POST", "/orders", { times: 1 });
+    mock.assertCalled("GET", "/missing", { times: 1 });
+  });
+
+  it("does not retry a failed auth strategy or token refresh", async () => {
+    let signs = 0;
+    const { client: signed, mock: signedMock } = createMockClient({
+      retry: { retries: 3, baseDelayMs: 1, jitter: false },
+      auth: () => {
+        signs += 1;
+        throw new Error("signing key unavailable");
+      },
+    });
+    signedMock.on("GET", "/me").reply(200, {});
+
+    const unsigned = await signed.getOne("/me");
+
+    expect(unsigned).toMatchObject({ status: false, data: { code: "EAUTH", attempts: 1 } });
+    expect(signs).toBe(1);
+    signedMock.assertCalled("GET", "/me", { times: 0 });
+
+    let refreshes = 0;
+    const { client, mock } = createMockClient({
+      retry: { retries: 3, baseDelayMs: 1, jitter: false, retryOn: [401, 503] },
+      getToken: () => "old",
+      refreshToken: async () => {
+        refreshes += 1;
+        throw new Error("refresh token revoked");
+      },
+    });
+    mock.on("GET", "/me").reply(401);
+
+    const expired = await client.getOne("/me");
+
+    expect(expired).toMatchObject({ status: false, data: { code: "EAUTHREFRESH", attempts: 1 } });
+    expect(refreshes).toBe(1);
+  });
+});
+
+describe("idempotency key", () => {
+  it("sends the same key on every retry of a call and a new key per call", async () => {
+    const { client, mock } = createMockClient({ idempotencyKey: true, retry: { retries: 2, baseDelayMs: 1, jitter: false, retryNonIdempotent: true } });
+    mock.on("POST", "/charges").replyOnce(502).replyOnce(502).reply(201, { ok: true });
+
+    expect((await client.post("/charges", { amount: 1 })).status).toBe(true);
+    expect((await client.post("/charges", { amount: 2 })).status).toBe(true);
+
+    const keys = mock.calls.map((call) => call.headers["idempotency-key"]);
+    expect(keys).toHaveLength(4);
+    expect(new Set(keys.slice(0, 3)).size).toBe(1);
+    expect(keys[3]).not.toBe(keys[0]);
+  });
+});
+
+describe("response cache", () => {
+  it("serves stale entries while revalidating and revalidates with If-None-Match", async () => {
+    const { client, mock } = createMockClient({ cache: { ttlMs: 20, staleWhileRevalidateMs: 40 } });
+    let version = 1;
+    mock.on("GET", "/users").reply((req) =>
+      req.headers["if-none-match"] === `"v${version}"` ? { status: 304, headers: { ETag: `"v${version}"` } } : { data: { version }, headers: { ETag: `"v${version}"` } }
+    );
+
+    expect((await client.getMany("/users")).data).toEqual({ version: 1 });
+    expect((await client.getMany("/users")).data).toEqual({ version: 1 }); // fresh hit
+    expect(mock.calls).toHaveLength(1);
+
+    await sleep(30);
+    version = 2;
+    expect((await client.getMany("/users")).data).toEqual({ version: 1 }); // stale, revalidating
+    await sleep(5);
+    expect((await client.getMany("/users")).data).toEqual({ version: 2 });
+
+    await sleep(80);
+    expect((await client.getMany("/users")).data).toEqual({ version: 2 }); // expired: 304 keeps the body
+    expect(mock.calls.map((call) => call.headers["if-none-match"])).toEqual([undefined, '"v1"', '"v2"']);
+  });
+});
+
+describe("offline queue", () => {
+  it("replays queued mutations in call order", async () => {
+    const { client, mock } = createMockClient({ offline: { autoFlush: false } });
+    mock.on("*", "/notes/*").networkError();
+
+    expect((await client.post("/notes/a", { n: 1 })).data).toMatchObject({ code: "EQUEUED", reason: "ERR_NETWORK" });
+    expect((await client.put("/notes/b", { n: 2 })).data).toMatchObject({ code: "EQUEUED" }); // queued behind /notes/a
+    expect((await client.remove("/notes/c")).data).toMatchObject({ code: "EQUEUED" });
+
+    mock.reset();
+    mock.on("*", "/notes/*").reply(200, {});
+    const flushed = await client.flush();
+
+    expect(flushed).toEqual({ replayed: 3, conflicts: 0, failed: 0, remaining: 0 });
+    expect(mock.calls.map((call) => `${call.method} ${call.path}`)).toEqual(["POST /notes/a", "PUT /notes/b", "DELETE /notes/c"]);
+  });
+
+  it("counts a mutation whose isConflict throws as failed and keeps flushing", async () => {
+    const failures: string[] = [];
+    const { client, mock } = createMockClient({
+      offline: {
+        autoFlush: false,
+        isConflict: () => {
+          throw new Error("broken predicate");
+        },
+        onFailure: (mutation) => failures.push(mutation.url),
+      },
+    });
+    mock.on("POST", "/notes").networkError();
+    await client.post("/notes", { n: 1 });
+    await client.post("/notes", { n: 2 });
+
+    mock.reset();
+    mock.on("POST", "/notes", { body: { n: 1 } }).reply(422);
+    mock.on("POST", "/notes", { body: { n: 2 } }).reply(201, {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const flushed = await client.flush();
+    expect(warn).toHaveBeenCalledWith("Error in offline queue hook:", expect.any(Error));
+    warn.mockRestore();
+
+    expect(flushed).toEqual({ replayed: 1, conflicts: 0, failed: 1, remaining: 0 });
+    expect(failures).toEqual(["/notes"]);
+  });
+
+  it("does not queue calls the server answered", async () => {
+    const { client, mock } = createMockClient({ offline: { autoFlush: false } });
+    mock.on("POST", "/orders").reply(500);
+
+    expect((await client.post("/orders", {})).data).toMatchObject({ statusCode: 500 });
+    expect(client.offlineQueue().pending).toHaveLength(0);
+  });
+});
+
+describe("chunked upload", () => {
+  it("spends one deadline on the whole upload instead of one per chunk", async () => {
+    const { client, mock } = createMockClient({ deadlineMs: 80 });
+    mock.on("POST", "/imports").reply(201, {}, { headers: { Location: "/imports/1" } });
+    mock.on("PUT", "/imports/1").reply({ data: { id: "1" }, delayMs: 30 });
+
+    const result = await client.upload("/imports", new Blob(["abcd"]), { chunked: { chunkSize: 1, concurrency: 1 } });
+
+    expect(result).toMatchObject({ status: false, data: { code: "EDEADLINE", resumable: true } });
+    expect(mock.calls.filter((call) => call.method === "PUT").length).toBeLessThan(4);
+  });
+});
+
+describe("mock transport", () => {
+  it("records calls and reports unmatched routes as 404", async () => {
+    const transport = createMockTransport();
+    const { client } = createMockClient({}, transport);
+
+    const result = await client.getOne("/nowhere");
+
+    expect(result.data).toMatchObject({ statusCode: 404 });
+    expect(() => transport.assertCalled("GET", "/nowhere", { times: 1 })).not.toThrow();
+  });
+});
+
+describe("serialization with graphql() and rpc()", () => {
+  it("never renames the GraphQL envelope or variables with requestCase", async () => {
+    const { client, mock } = createMockClient({ serialization: { requestCase: "snake", responseCase: "camel" }, graphql: { persistedQueries: true } });
+    mock.on("POST", "/graphql", { body: { query: (value: unknown) => value === undefined } }).reply(200, { errors: [{ message: "PersistedQueryNotFound" }] });
+    mock.on("POST", "/graphql", { body: { query: (value: unknown) => typeof value === "string" } }).reply(200, { data: { user_name: "Ada" } });
+
+    const result = await client.graphql("query Me($userId: Int!) { me(id: $userId) { user_name } }", { userId: 1 }, { operationName: "Me" });
+
+    expect(result).toEqual({ status: true, data: { userName: "Ada" } });
+    const [hashOnly, full] = mock.calls.map((call) => call.body as Record<string, unknown>);
+    expect(Object.keys(hashOnly).sort()).toEqual(["extensions", "operationName", "variables"]);
+    expect(hashOnly.variables).toEqual({ userId: 1 });
+    expect(hashOnly.extensions).toEqual({ persistedQuery: { version: 1, sha256Hash: expect.stringMatching(/^[0-9a-f]{64}$/) } });
+    expect(full).toMatchObject({ operationName: "Me", variables: { userId: 1 }, query: expect.stringContaining("$userId") });
+  });
+
+  it("transforms JSON-RPC params but not the envelope", async () => {
+    const { client, mock } = createMockClient({ serialization: { requestCase: "snake" } });
+    mock.on("POST", "/rpc").reply((req) => ({ data: { jsonrpc: "2.0", id: (req.body as { id: string }).id, result: true } }));
+
+    expect((await client.rpc("orders.find", { customerId: 7 })).status).toBe(true);
+    expect(mock.calls[0].body).toMatchObject({ jsonrpc: "2.0", method: "orders.find", params: { customer_id: 7 } });
+  });
+
+  it("still transforms plain request bodies", async () => {
+    const { client, mock } = createMockClient({ serialization: { requestCase: "snake" } });
+    mock.on("POST", "/users").reply(201, {});
+
+    await client.post("/users", { firstName: "Ada" });
+    expect(mock.calls[0].body).toEqual({ first_name: "Ada" });
+  });
+});
+
+describe("dedupe", () => {
+  it("shares one request between clients built from the same options", async () => {
+    const transport = createMockTransport();
+    const { client, resource } = createMockClient({ dedupe: true }, transport);
+    transport.on("GET", "/accounts").reply(200, [{ id: 1 }], { delayMs: 10 });
+
+    const results = await Promise.all([client.getMany("/accounts"), resource("/accounts").list(), resource("/accounts").list()]);
+
+    expect(results.map((result) => result.data)).toEqual([[{ id: 1 }], [{ id: 1 }], [{ id: 1 }]]);
+    transport.assertCalled("GET", "/accounts", { times: 1 });
+  });
+
+  it("does not share requests between clients with other options", async () => {
+    const transport = createMockTransport();
+    const first = createMockClient({ dedupe: true }, transport);
+    const second = createMockClient({ dedupe: true }, transport);
+    transport.on("GET", "/accounts").reply(200, [], { delayMs: 10 });
+
+    await Promise.all([first.client.getMany("/accounts"), second.client.getMany("/accounts")]);
+
+    transport.assertCalled("GET", "/accounts", { times: 2 });
+  });
+});
+
+describe("extend()", () => {
+  it("applies the parent's raw interceptors, including ones added later", async () => {
+    const { client, mock } = createMockClient({});
+    mock.on("GET", "/orders").reply((req) => ({ data: [req.headers["x-app"] ?? null, req.headers["x-late"] ?? null, req.headers["x-tenant"] ?? null] }));
+    client.raw.interceptors.request.use((config) => {
+      config.headers["X-App"] = "web";
+      return config;
+    });
+    const acme = client.extend({ headers: { "X-Tenant": "acme" } });
+    const late = client.raw.interceptors.request.use((config) => {
+      config.headers["X-Late"] = "yes";
+      return config;
+    });
+    client.raw.interceptors.response.use((response) => ({ ...response, data: { wrapped: response.data } }));
+
+    expect((await acme.getMany("/orders")).data).toEqual({ wrapped: ["web", "yes", "acme"] });
+    client.raw.interceptors.request.eject(late);
+    expect((await acme.getMany("/orders")).data).toEqual({ wrapped: ["web", null, "acme"] });
+  });
+
+  it("reports the derived client's calls to the parent's listeners and metrics", async () => {
+    const { client, mock } = createMockClient({});
+    mock.on("GET", "/orders").reply(200, []);
+    const events: string[] = [];
+    client.on("success", (event) => events.push(event.url));
+
+    await client.extend({ headers: { "X-Tenant": "acme" } }).getMany("/orders");
+
+    expect(events).toEqual(["/orders"]);
+    expect(client.metrics()["GET /orders"]).toMatchObject({ count: 1, success: 1 });
+  });
+});
+
+describe("lifecycle events", () => {
+  it("reports GraphQL errors on HTTP 200 as failures", async () => {
+    const { client, mock } = createMockClient({});
+    mock.on("POST", "/graphql").reply(200, { data: null, errors: [{ message: "Not allowed" }] });
+    const outcomes: string[] = [];
+    client.on("*", (event) => ["success", "failure"].includes(event.type) && outcomes.push(`${event.type}:${event.code ?? ""}`));
+
+    const result = await client.graphql("query { me { id } }");
+
+    expect(result.data).toMatchObject({ code: "EGRAPHQL", message: "Not allowed", attempts: 1 });
+    expect(outcomes).toEqual(["failure:EGRAPHQL"]);
+    expect(client.metrics()["POST /graphql"]).toMatchObject({ success: 0, failure: 1 });
+  });
+
+  it("does not count a persisted query miss as a failure", async () => {
+    const { client, mock } = createMockClient({ graphql: { persistedQueries: true } });
+    mock.on("POST", "/graphql", { body: { query: (value: unknown) => value === undefined } }).reply(200, { errors: [{ message: "PersistedQueryNotFound" }] });
+    mock.on("POST", "/graphql", { body: { query: (value: unknown) => typeof value === "string" } }).reply(200, { data: { ok: true } });
+
+    expect(await client.graphql("query { ok }")).toEqual({ status: true, data: { ok: true } });
+    expect(client.metrics()["POST /graphql"]).toMatchObject({ success: 2, failure: 0 });
+  });
+
+  it("reports JSON-RPC errors on HTTP 200 as failures", async () => {
+    const { client, mock } = createMockClient({});
+    mock.on("POST", "/rpc").reply((req) => ({ data: { jsonrpc: "2.0", id: (req.body as { id: string }).id, error: { code: -32601, message: "Method not found" } } }));
+
+    const result = await client.rpc("nope");
+
+    expect(result.data).toMatchObject({ code: "ERPC", rpcCode: -32601 });
+    expect(client.metrics()["POST /rpc"]).toMatchObject({ success: 0, failure: 1 });
+  });
+});